@@ -0,0 +1,57 @@
+import { createSlackPipeline } from "../../lib/pipeline.js";
+import { routerConfigFromEnv } from "../../lib/model-router.js";
+import { createPreferencesStore } from "../../lib/preferences.js";
+import { createWorkspaceConfigStore } from "../../lib/workspace.js";
+import { createConversationStore } from "../../lib/conversations.js";
+import { createResultStore } from "../../lib/results.js";
+import { createFeedbackStore } from "../../lib/feedback.js";
+import { KeyValueStore, createMemoryStore } from "../../lib/storage.js";
+import { cacheSettingsFromEnv, createVersionCache } from "../../lib/cache.js";
+import { createUsageStore } from "../../lib/usage.js";
+import { createKvRateLimiter, createRateLimiter } from "../../lib/rate-limit.js";
+import { createInstallationStore } from "../../lib/installations.js";
+import { createKvStore, kvConfigFromEnv } from "../../lib/kv-store.js";
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const kv = kvConfigFromEnv(process.env);
+
+// Every function runs in its own isolate, so anything a later request reads (results behind buttons,
+// settings, usage) belongs in KV. Without KV each isolate keeps its own memory, which is only good for trying it out.
+function edgeStore<T>(name: string, options: { ttlSeconds?: number; maxEntries?: number } = {}): KeyValueStore<T> {
+  return kv
+    ? createKvStore<T>(kv, `reword:${name}:`, { ttlSeconds: options.ttlSeconds })
+    : createMemoryStore<T>({ maxEntries: options.maxEntries });
+}
+
+// No filesystem on the edge, so "file" caching falls back to the store above
+const cacheSettings = cacheSettingsFromEnv(process.env);
+
+export const pipeline = createSlackPipeline({
+  env: process.env,
+  // Routing comes from MODEL_ROUTER_JSON or the local-server env vars
+  routerConfig: routerConfigFromEnv(process.env),
+  stores: {
+    preferences: createPreferencesStore(edgeStore("preferences")),
+    workspaces: createWorkspaceConfigStore(edgeStore("workspaces")),
+    installations: createInstallationStore(edgeStore("installations")),
+    feedback: createFeedbackStore(edgeStore("feedback")),
+    usage: createUsageStore(edgeStore("usage"), edgeStore("usage-totals")),
+    results: createResultStore(edgeStore("results", { ttlSeconds: DAY_SECONDS, maxEntries: 1000 })),
+    conversations: createConversationStore(edgeStore("conversations", { ttlSeconds: DAY_SECONDS })),
+    // Buckets are spent atomically in KV; the memory fallback limits each isolate on its own
+    rateLimiter: kv
+      ? createKvRateLimiter(kv, "reword:rate-limits:")
+      : createRateLimiter(createMemoryStore({ maxEntries: 10000 })),
+    versionCache:
+      cacheSettings.backend === "off"
+        ? undefined
+        : createVersionCache(
+            edgeStore("cache", {
+              ttlSeconds: Math.ceil(cacheSettings.ttlMs / 1000),
+              maxEntries: cacheSettings.maxEntries,
+            }),
+            { ttlMs: cacheSettings.ttlMs }
+          ),
+  },
+});
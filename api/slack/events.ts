@@ -0,0 +1,11 @@
+import { RequestContext } from "../../lib/pipeline.js";
+import { pipeline } from "./_pipeline.js";
+
+export const config = {
+  runtime: "edge",
+};
+
+// Events API: mentions, DMs and uninstalls
+export default function handler(req: Request, context?: RequestContext) {
+  return pipeline.events(req, context);
+}
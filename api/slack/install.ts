@@ -0,0 +1,11 @@
+import { RequestContext } from "../../lib/pipeline.js";
+import { pipeline } from "./_pipeline.js";
+
+export const config = {
+  runtime: "edge",
+};
+
+// OAuth install: redirects to Slack's consent screen
+export default function handler(req: Request, context?: RequestContext) {
+  return pipeline.install(req, context);
+}
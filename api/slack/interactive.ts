@@ -0,0 +1,11 @@
+import { RequestContext } from "../../lib/pipeline.js";
+import { pipeline } from "./_pipeline.js";
+
+export const config = {
+  runtime: "edge",
+};
+
+// Button clicks and modal submissions
+export default function handler(req: Request, context?: RequestContext) {
+  return pipeline.interactive(req, context);
+}
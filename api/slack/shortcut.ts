@@ -0,0 +1,11 @@
+import { RequestContext } from "../../lib/pipeline.js";
+import { pipeline } from "./_pipeline.js";
+
+export const config = {
+  runtime: "edge",
+};
+
+// Message shortcuts, plus interactions if the interactivity URL points here
+export default function handler(req: Request, context?: RequestContext) {
+  return pipeline.shortcut(req, context);
+}
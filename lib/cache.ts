@@ -0,0 +1,76 @@
+import { KeyValueStore } from "./storage.js";
+import { hashMessage } from "./feedback.js";
+
+// Everything a generated version depends on; the system prompt covers options, workspace and language
+export interface VersionCacheKey {
+  message: string;
+  styleId: string;
+  promptVersion: string;
+  model: string;
+  systemPrompt: string;
+}
+
+export interface CacheEntry {
+  text: string;
+  expiresAt: number;
+}
+
+export interface VersionCache {
+  get(key: VersionCacheKey): Promise<string | undefined>;
+  set(key: VersionCacheKey, text: string): Promise<void>;
+}
+
+export interface VersionCacheOptions {
+  ttlMs: number;
+  now?: () => number;
+}
+
+export interface CacheSettings {
+  backend: "memory" | "file" | "off";
+  ttlMs: number;
+  maxEntries: number;
+}
+
+// REWORD_CACHE=memory (default), file or off; REWORD_CACHE_TTL_HOURS and REWORD_CACHE_MAX_ENTRIES set the limits
+export function cacheSettingsFromEnv(env: Record<string, string | undefined>): CacheSettings {
+  const backend = env.REWORD_CACHE === "file" || env.REWORD_CACHE === "off" ? env.REWORD_CACHE : "memory";
+  return {
+    backend,
+    ttlMs: Number(env.REWORD_CACHE_TTL_HOURS || 24) * 60 * 60 * 1000,
+    maxEntries: Number(env.REWORD_CACHE_MAX_ENTRIES || 5000),
+  };
+}
+
+// "Need this  ASAP " and "Need this ASAP" share one entry. Case is kept, since the rewording
+// follows the original's capitalization (names, acronyms)
+export function normalizeMessage(message: string): string {
+  return message.normalize("NFC").trim().replace(/\s+/g, " ");
+}
+
+export async function createVersionCacheKey(key: VersionCacheKey): Promise<string> {
+  const system = await hashMessage(key.systemPrompt);
+  const message = await hashMessage(normalizeMessage(key.message));
+  return `${key.promptVersion}:${key.model}:${key.styleId}:${system.slice(0, 16)}:${message}`;
+}
+
+// Caches generated versions on top of any store; size limits are left to the store (maxEntries)
+export function createVersionCache(store: KeyValueStore<CacheEntry>, options: VersionCacheOptions): VersionCache {
+  const now = options.now ?? Date.now;
+  return {
+    async get(key) {
+      const cacheKey = await createVersionCacheKey(key);
+      const entry = await store.get(cacheKey);
+      if (!entry) {
+        return undefined;
+      }
+      if (entry.expiresAt <= now()) {
+        await store.delete(cacheKey);
+        return undefined;
+      }
+      return entry.text;
+    },
+    async set(key, text) {
+      await store.set(await createVersionCacheKey(key), { text, expiresAt: now() + options.ttlMs });
+    },
+  };
+}
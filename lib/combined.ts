@@ -0,0 +1,55 @@
+import type { JSONSchema7 } from "ai";
+
+// "per-style" makes one call per style; "combined" asks for every style in one structured call
+export type GenerationMode = "per-style" | "combined";
+
+export interface CombinedVersions {
+  versions: Record<string, string>;
+  // Optional metadata the model reports alongside the versions
+  detectedLanguage?: string;
+  changedPhrases?: string[];
+}
+
+export function resolveGenerationMode(value: string | undefined): GenerationMode {
+  return value?.trim().toLowerCase() === "combined" ? "combined" : "per-style";
+}
+
+// JSON Schema with one required string per requested style
+export function createCombinedSchema(styleIds: string[]): JSONSchema7 {
+  return {
+    type: "object",
+    properties: {
+      versions: {
+        type: "object",
+        properties: Object.fromEntries(styleIds.map((id) => [id, { type: "string" }])),
+        required: styleIds,
+        additionalProperties: false,
+      },
+      detectedLanguage: { type: "string" },
+      changedPhrases: { type: "array", items: { type: "string" } },
+    },
+    required: ["versions"],
+    additionalProperties: false,
+  };
+}
+
+// Validates the model's object; throws when a requested style is missing so the caller can fall back
+export function parseCombinedVersions(raw: unknown, styleIds: string[]): CombinedVersions {
+  const object = (raw ?? {}) as Partial<CombinedVersions>;
+  const versions: Record<string, string> = {};
+  for (const id of styleIds) {
+    const text = object.versions?.[id];
+    if (typeof text !== "string" || text.trim() === "") {
+      throw new Error(`Combined output is missing the "${id}" version`);
+    }
+    versions[id] = text.trim();
+  }
+
+  return {
+    versions,
+    detectedLanguage: typeof object.detectedLanguage === "string" ? object.detectedLanguage : undefined,
+    changedPhrases: Array.isArray(object.changedPhrases)
+      ? object.changedPhrases.filter((p): p is string => typeof p === "string")
+      : undefined,
+  };
+}
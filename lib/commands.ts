@@ -0,0 +1,166 @@
+import { getStyle, listStyles } from "./styles.js";
+
+export type RewordLength = "shorter" | "same" | "longer";
+
+export interface RewordOptions {
+  styles?: string[];
+  language?: string;
+  length?: RewordLength;
+  audience?: string;
+}
+
+export type RewordCommand =
+  | { type: "help" }
+  | { type: "styles" }
+  | { type: "usage" }
+  | { type: "settings"; args: string[] }
+  | { type: "reword"; message: string; options: RewordOptions }
+  | { type: "invalid"; error: string };
+
+const FLAG_ALIASES: Record<string, keyof RewordOptions> = {
+  style: "styles",
+  styles: "styles",
+  language: "language",
+  lang: "language",
+  length: "length",
+  audience: "audience",
+};
+
+const LENGTH_ALIASES: Record<string, RewordLength> = {
+  short: "shorter",
+  shorter: "shorter",
+  same: "same",
+  long: "longer",
+  longer: "longer",
+};
+
+// Splits off the next whitespace-delimited token, honouring "double" or 'single' quotes
+function nextToken(input: string): { token: string; rest: string } | null {
+  const trimmed = input.trimStart();
+  if (!trimmed) {
+    return null;
+  }
+  const match = trimmed.match(/^(?:[^\s"']+|"[^"]*"|'[^']*')+/);
+  const raw = match ? match[0] : trimmed;
+  return {
+    token: raw.replace(/"([^"]*)"|'([^']*)'/g, "$1$2"),
+    rest: trimmed.slice(raw.length),
+  };
+}
+
+export function resolveOptionName(name: string): keyof RewordOptions | undefined {
+  const key = name.toLowerCase();
+  return Object.hasOwn(FLAG_ALIASES, key) ? FLAG_ALIASES[key] : undefined;
+}
+
+// Validates and applies one option to `options`, returning an error message when invalid
+export function applyOption(options: RewordOptions, name: string, value: string): string | null {
+  const key = resolveOptionName(name);
+  if (!key) {
+    return `Unknown option \`--${name}\`. Try \`/reword help\`.`;
+  }
+  if (!value) {
+    return `Option \`--${name}\` needs a value.`;
+  }
+
+  switch (key) {
+    case "styles": {
+      const ids = value.split(",").map((id) => id.trim().toLowerCase()).filter(Boolean);
+      const unknown = ids.filter((id) => !getStyle(id));
+      if (unknown.length > 0) {
+        const available = listStyles().map((s) => `\`${s.id}\``).join(", ");
+        return `Unknown style \`${unknown[0]}\`. Available styles: ${available}`;
+      }
+      options.styles = [...(options.styles ?? []), ...ids];
+      return null;
+    }
+    case "length": {
+      const length = value.toLowerCase();
+      if (!Object.hasOwn(LENGTH_ALIASES, length)) {
+        return "Option `--length` must be one of `shorter`, `same` or `longer`.";
+      }
+      options.length = LENGTH_ALIASES[length];
+      return null;
+    }
+    case "language":
+    case "audience":
+      options[key] = value;
+      return null;
+  }
+}
+
+// "settings" is only a subcommand when followed by nothing, "reset" or a known setting (as "key value" or
+// "key=value"), so "/reword settings page is broken" is reworded instead
+function parseSettingsArgs(args: string[]): string[] | undefined {
+  if (args.length === 0 || (args.length === 1 && args[0].toLowerCase() === "reset")) {
+    return args;
+  }
+  const [first, ...rest] = args;
+  const eq = first.indexOf("=");
+  if (eq > 0 && resolveOptionName(first.slice(0, eq))) {
+    return [first.slice(0, eq), first.slice(eq + 1), ...rest].filter((arg) => arg !== "");
+  }
+  return resolveOptionName(first) ? args : undefined;
+}
+
+export function parseRewordCommand(text: string): RewordCommand {
+  const trimmed = text.trim();
+  const subcommand = trimmed.split(/\s+/)[0].toLowerCase();
+
+  // Subcommands only match as the first word, so "/reword help me with this" is still reworded
+  if (trimmed === "" || (subcommand === "help" && trimmed.toLowerCase() === "help")) {
+    return { type: "help" };
+  }
+  if (trimmed.toLowerCase() === "styles") {
+    return { type: "styles" };
+  }
+  if (trimmed.toLowerCase() === "usage") {
+    return { type: "usage" };
+  }
+  if (subcommand === "settings") {
+    const args = parseSettingsArgs(trimmed.split(/\s+/).slice(1));
+    if (args) {
+      return { type: "settings", args };
+    }
+  }
+
+  const options: RewordOptions = {};
+  let rest = trimmed;
+
+  // Leading --flag=value / --flag value pairs, terminated by "--" or the first non-flag word
+  for (;;) {
+    const next = nextToken(rest);
+    if (!next || !next.token.startsWith("--")) {
+      break;
+    }
+    rest = next.rest;
+    if (next.token === "--") {
+      break;
+    }
+
+    const flag = next.token.slice(2);
+    const eq = flag.indexOf("=");
+    let name: string;
+    let value: string;
+    if (eq >= 0) {
+      name = flag.slice(0, eq);
+      value = flag.slice(eq + 1);
+    } else {
+      name = flag;
+      const valueToken = nextToken(rest);
+      value = valueToken?.token ?? "";
+      rest = valueToken?.rest ?? "";
+    }
+
+    const error = applyOption(options, name, value.trim());
+    if (error) {
+      return { type: "invalid", error };
+    }
+  }
+
+  const message = rest.trim();
+  if (!message) {
+    return { type: "invalid", error: "Please provide a message to reword after the options." };
+  }
+  return { type: "reword", message, options };
+}
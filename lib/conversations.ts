@@ -0,0 +1,74 @@
+import { KeyValueStore } from "./storage.js";
+import { RewordOptions } from "./commands.js";
+import { RewordedVersions } from "./slack.js";
+
+// The last draft and result in a DM with the bot, so follow-ups can refine it
+export interface ConversationState {
+  original: string;
+  versions: RewordedVersions;
+  options: RewordOptions;
+  updatedAt: string;
+}
+
+export interface ConversationStore {
+  get(teamId: string, channelId: string): Promise<ConversationState | undefined>;
+  set(teamId: string, channelId: string, state: ConversationState): Promise<void>;
+  clear(teamId: string, channelId: string): Promise<void>;
+}
+
+export type DirectMessageIntent =
+  | { type: "help" }
+  | { type: "reset" }
+  | { type: "reword"; message: string }
+  | { type: "refine"; instruction: string };
+
+// Follow-ups are short, so anything longer than this is treated as a new draft
+const MAX_REFINEMENT_WORDS = 8;
+
+const REFINEMENT_PATTERNS = [
+  /^(make it |make them |a bit |a little |slightly |much |even |way )*(more|less) \w+/,
+  /^(make it |make them |a bit |a little |slightly |much |even )*(shorter|longer|friendlier|softer|warmer|firmer|politer|simpler|clearer|punchier|briefer)\b/,
+  /^(try again|another one|again|different|redo|tone it (down|up))\b/,
+  /^(remove|drop|add|without|no) (the )?(greeting|emoji|emojis|exclamation|exclamation marks|hey|thanks|sign-?off)\b/,
+];
+
+function conversationKey(teamId: string, channelId: string): string {
+  return `${teamId}:${channelId}`;
+}
+
+export function createConversationStore(store: KeyValueStore<ConversationState>): ConversationStore {
+  return {
+    get(teamId, channelId) {
+      return store.get(conversationKey(teamId, channelId));
+    },
+    set(teamId, channelId, state) {
+      return store.set(conversationKey(teamId, channelId), state);
+    },
+    clear(teamId, channelId) {
+      return store.delete(conversationKey(teamId, channelId));
+    },
+  };
+}
+
+export function isRefinement(text: string): boolean {
+  const normalized = text.trim().toLowerCase().replace(/[.!?]+$/, "");
+  if (normalized.split(/\s+/).length > MAX_REFINEMENT_WORDS) {
+    return false;
+  }
+  return REFINEMENT_PATTERNS.some((pattern) => pattern.test(normalized));
+}
+
+export function classifyDirectMessage(text: string, hasPrevious: boolean): DirectMessageIntent {
+  const trimmed = text.trim();
+  const lower = trimmed.toLowerCase();
+  if (lower === "help" || lower === "") {
+    return { type: "help" };
+  }
+  if (lower === "reset" || lower === "new") {
+    return { type: "reset" };
+  }
+  if (hasPrevious && isRefinement(trimmed)) {
+    return { type: "refine", instruction: trimmed };
+  }
+  return { type: "reword", message: trimmed };
+}
@@ -0,0 +1,140 @@
+import { PLACEHOLDER_PATTERN } from "./mrkdwn.js";
+
+export type EntityKind =
+  | "placeholder"
+  | "user"
+  | "channel"
+  | "special"
+  | "link"
+  | "url"
+  | "emoji"
+  | "code"
+  | "ticket"
+  | "number";
+
+// Something the model must copy verbatim: `raw` is how it appears in the original,
+// `id` is the part that has to survive (user id, channel id, URL, ...)
+export interface Entity {
+  kind: EntityKind;
+  raw: string;
+  id: string;
+  label?: string;
+}
+
+const SLACK_ENTITY = /<([@#!])([^>|]+)(?:\|([^>]*))?>|<((?:https?|mailto):[^>|]+)(?:\|([^>]*))?>/g;
+const CODE = /```[\s\S]*?```|`[^`\n]+`/g;
+const BARE_URL = /\bhttps?:\/\/[^\s<>]+[^\s<>.,;:!?)'"]/g;
+const EMOJI = /:[a-z0-9_+-]+:/g;
+// JIRA-style keys (ABC-123) and GitHub-style references (#123)
+const TICKET = /\b[A-Z][A-Z0-9]+-\d+\b|(?<![\w#])#\d+\b/g;
+const NUMBER = /(?<![\w.,])\d+(?:[.,:]\d+)*(?!\d)/g;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Extracts Slack entities and literal content (mrkdwn placeholders, code, URLs, emoji, tickets, numbers)
+export function extractEntities(text: string): Entity[] {
+  const entities: Entity[] = [];
+  let rest = text;
+
+  // Mask each match so later patterns don't pick up the numbers inside ids and URLs
+  const take = (pattern: RegExp, toEntity: (match: RegExpMatchArray) => Entity) => {
+    for (const match of rest.matchAll(pattern)) {
+      entities.push(toEntity(match));
+    }
+    rest = rest.replace(pattern, " ");
+  };
+
+  take(PLACEHOLDER_PATTERN, (m) => ({ kind: "placeholder", raw: m[0], id: m[0] }));
+  take(CODE, (m) => ({ kind: "code", raw: m[0], id: m[0] }));
+  take(SLACK_ENTITY, (m) => {
+    if (m[4]) {
+      return { kind: "link", raw: m[0], id: m[4], label: m[5] };
+    }
+    const kind: EntityKind = m[1] === "@" ? "user" : m[1] === "#" ? "channel" : "special";
+    return { kind, raw: m[0], id: m[2], label: m[3] };
+  });
+  take(BARE_URL, (m) => ({ kind: "url", raw: m[0], id: m[0] }));
+  take(EMOJI, (m) => ({ kind: "emoji", raw: m[0], id: m[0] }));
+  take(TICKET, (m) => ({ kind: "ticket", raw: m[0], id: m[0] }));
+  take(NUMBER, (m) => ({ kind: "number", raw: m[0], id: m[0] }));
+
+  const seen = new Set<string>();
+  return entities.filter((entity) => {
+    const key = `${entity.kind}:${entity.id}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+// Labels may be reworded or translated, so Slack entities only need their id to survive
+function entityPattern(entity: Entity): RegExp {
+  const id = escapeRegExp(entity.id);
+  switch (entity.kind) {
+    case "user":
+      return new RegExp(`<@${id}(\\|[^>]*)?>`);
+    case "channel":
+      return new RegExp(`<#${id}(\\|[^>]*)?>`);
+    case "special":
+      return new RegExp(`<!${id}(\\|[^>]*)?>`);
+    case "link":
+    case "url":
+      return new RegExp(id);
+    case "ticket":
+      return new RegExp(`(?<![\\w#])${id}(?![\\w])`);
+    case "number":
+      return new RegExp(`(?<![\\d.,])${id}(?![\\d]|[.,:]\\d)`);
+    default:
+      return new RegExp(id);
+  }
+}
+
+export function findMissingEntities(entities: Entity[], text: string): Entity[] {
+  return entities.filter((entity) => !entityPattern(entity).test(text));
+}
+
+// Plain-text forms the model tends to rewrite entities into, e.g. "@jane" for <@U123|jane>
+function plainForms(entity: Entity): string[] {
+  const forms: string[] = [];
+  switch (entity.kind) {
+    case "user":
+      forms.push(`@${entity.id}`);
+      if (entity.label) {
+        forms.push(`@${entity.label}`);
+      }
+      break;
+    case "channel":
+      if (entity.label) {
+        forms.push(`#${entity.label}`);
+      }
+      break;
+    case "special":
+      forms.push(`@${entity.label?.replace(/^@/, "") ?? entity.id}`);
+      break;
+    case "link":
+      if (entity.label) {
+        forms.push(entity.label);
+      }
+      break;
+  }
+  return forms;
+}
+
+// Restores Slack entities that were rewritten into plain text; anything else needs a retry
+export function repairEntities(text: string, entities: Entity[]): string {
+  let repaired = text;
+  for (const entity of findMissingEntities(entities, text)) {
+    for (const form of plainForms(entity)) {
+      const pattern = new RegExp(`(?<![\\w<@#|])${escapeRegExp(form)}(?![\\w])`);
+      if (pattern.test(repaired)) {
+        repaired = repaired.replace(pattern, entity.raw);
+        break;
+      }
+    }
+  }
+  return repaired;
+}
@@ -0,0 +1,50 @@
+// Helpers for Events API payloads. Event text is escaped: & < > arrive as &amp; &lt; &gt;
+
+export interface AppMentionEvent {
+  type: "app_mention";
+  user: string;
+  text: string;
+  ts: string;
+  channel: string;
+  thread_ts?: string;
+  bot_id?: string;
+}
+
+// A "message.im" event: a message in a DM with the bot
+export interface DirectMessageEvent {
+  type: "message";
+  channel_type: "im";
+  user: string;
+  text?: string;
+  ts: string;
+  channel: string;
+  bot_id?: string;
+  subtype?: string;
+}
+
+// Removes the bot's own mention (or the leading mention when the bot id is unknown)
+export function stripBotMention(text: string, botUserId?: string): string {
+  const mention = botUserId ? new RegExp(`<@${botUserId}(\\|[^>]*)?>`, "g") : /^\s*<@[A-Z0-9]+(\|[^>]*)?>/;
+  return text.replace(mention, "").trim();
+}
+
+// Text the user quoted alongside the mention, either as a > block quote or in double quotes
+export function extractQuotedText(text: string): string | undefined {
+  const quoteLines = text
+    .split("\n")
+    .filter((line) => /^\s*(&gt;|>)/.test(line))
+    .map((line) => line.replace(/^\s*(&gt;|>)\s?/, ""));
+  if (quoteLines.length > 0 && quoteLines.some((line) => line.trim() !== "")) {
+    return quoteLines.join("\n").trim();
+  }
+
+  const quoted = text.match(/[“"]([^“”"]+)[”"]/);
+  if (quoted && quoted[1].trim() !== "") {
+    return quoted[1].trim();
+  }
+  return undefined;
+}
+
+export function isThreadReply(event: { ts: string; thread_ts?: string }): boolean {
+  return event.thread_ts !== undefined && event.thread_ts !== event.ts;
+}
@@ -0,0 +1,42 @@
+import type { JSONSchema7 } from "ai";
+import type { PhraseExplanation } from "./slack.js";
+
+// At most this many changes are explained per version, to keep the section short
+export const MAX_EXPLAINED_CHANGES = 8;
+
+// JSON Schema for structured output; `original` is empty for phrases that were only added
+export const EXPLANATION_SCHEMA: JSONSchema7 = {
+  type: "object",
+  properties: {
+    changes: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          original: { type: "string" },
+          revised: { type: "string" },
+          reason: { type: "string" },
+        },
+        required: ["original", "revised", "reason"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["changes"],
+  additionalProperties: false,
+};
+
+// Drops changes without a reason and phrases the model invented rather than quoted from the message
+export function normalizeExplanations(raw: { changes?: unknown } | undefined, message: string): PhraseExplanation[] {
+  const haystack = message.toLowerCase();
+  const changes = Array.isArray(raw?.changes) ? (raw.changes as Partial<PhraseExplanation>[]) : [];
+  return changes
+    .map((c) => ({
+      original: String(c?.original ?? "").trim(),
+      revised: String(c?.revised ?? "").trim(),
+      reason: String(c?.reason ?? "").trim(),
+    }))
+    .filter((c) => c.reason !== "" && (c.original !== "" || c.revised !== ""))
+    .filter((c) => c.original === "" || haystack.includes(c.original.toLowerCase()))
+    .slice(0, MAX_EXPLAINED_CHANGES);
+}
@@ -0,0 +1,69 @@
+import { KeyValueStore } from "./storage.js";
+
+export type FeedbackRating = "up" | "down";
+
+// One user's rating of one reworded version; the message itself is only stored as a hash
+export interface FeedbackRecord {
+  resultId: string;
+  teamId: string;
+  userId: string;
+  styleId: string;
+  model: string;
+  promptVersion: string;
+  messageHash: string;
+  rating: FeedbackRating;
+  comment?: string;
+  createdAt: string;
+}
+
+export interface FeedbackStore {
+  get(resultId: string, styleId: string, userId: string): Promise<FeedbackRecord | undefined>;
+  // Re-rating the same version replaces the earlier rating
+  record(feedback: FeedbackRecord): Promise<void>;
+  list(): Promise<FeedbackRecord[]>;
+}
+
+function feedbackKey(resultId: string, styleId: string, userId: string): string {
+  return `${resultId}:${styleId}:${userId}`;
+}
+
+export function createFeedbackStore(store: KeyValueStore<FeedbackRecord>): FeedbackStore {
+  return {
+    get(resultId, styleId, userId) {
+      return store.get(feedbackKey(resultId, styleId, userId));
+    },
+    record(feedback) {
+      return store.set(feedbackKey(feedback.resultId, feedback.styleId, feedback.userId), feedback);
+    },
+    async list() {
+      const records = await store.values();
+      return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+  };
+}
+
+// SHA-256 of the original message, hex-encoded
+export async function hashMessage(message: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Encodes/decodes the value carried by the 👍/👎 buttons
+export function encodeFeedbackValue(resultId: string, styleId: string): string {
+  return `${resultId}:${styleId}`;
+}
+
+export function decodeFeedbackValue(value: string): { resultId: string; styleId: string } | null {
+  const index = value.lastIndexOf(":");
+  if (index <= 0 || index === value.length - 1) {
+    return null;
+  }
+  return { resultId: value.slice(0, index), styleId: value.slice(index + 1) };
+}
+
+// One JSON object per line, for prompt-tuning pipelines
+export function formatFeedbackJsonl(records: FeedbackRecord[]): string {
+  return records.map((record) => JSON.stringify(record)).join("\n") + (records.length > 0 ? "\n" : "");
+}
@@ -0,0 +1,100 @@
+import { mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { KeyValueStore } from "./storage.js";
+
+export interface FileStoreOptions {
+  // Oldest written entries are evicted once the file holds this many
+  maxEntries?: number;
+  // Re-read the file when it changed on disk, for files people edit by hand (workspaces.json)
+  reloadOnChange?: boolean;
+}
+
+// JSON-file backed store for the Node server; not usable on the edge runtime
+export function createFileStore<T>(filePath: string, options: FileStoreOptions = {}): KeyValueStore<T> {
+  let loading: Promise<Map<string, T>> | null = null;
+  let pendingWrite: Promise<void> = Promise.resolve();
+  // Modification time and size of the file as last read or written, or "" when it didn't exist
+  let loadedVersion: string | null = null;
+
+  async function fileVersion(): Promise<string> {
+    try {
+      const info = await stat(filePath);
+      return `${info.mtimeMs}:${info.size}`;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw err;
+      }
+      return "";
+    }
+  }
+
+  async function read(): Promise<Map<string, T>> {
+    if (options.reloadOnChange) {
+      loadedVersion = await fileVersion();
+    }
+    try {
+      const raw = await readFile(filePath, "utf8");
+      return new Map(Object.entries(JSON.parse(raw) as Record<string, T>));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw err;
+      }
+      return new Map();
+    }
+  }
+
+  // Read the file once; every caller shares the same in-memory map afterwards
+  // (unless reloadOnChange sees a newer file)
+  async function load(): Promise<Map<string, T>> {
+    if (loading && options.reloadOnChange && (await fileVersion()) !== loadedVersion) {
+      loading = null;
+    }
+    if (!loading) {
+      loading = read();
+      loading.catch(() => {
+        loading = null;
+      });
+    }
+    return loading;
+  }
+
+  // Serialize writes and swap the file atomically so readers never see a partial file
+  function persist(snapshot: Map<string, T>): Promise<void> {
+    pendingWrite = pendingWrite.catch(() => undefined).then(async () => {
+      const tmpPath = `${filePath}.tmp`;
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(tmpPath, JSON.stringify(Object.fromEntries(snapshot), null, 2));
+      await rename(tmpPath, filePath);
+      if (options.reloadOnChange) {
+        loadedVersion = await fileVersion();
+      }
+    });
+    return pendingWrite;
+  }
+
+  return {
+    async get(key) {
+      return (await load()).get(key);
+    },
+    async set(key, value) {
+      const current = await load();
+      current.delete(key);
+      current.set(key, value);
+      if (options.maxEntries !== undefined && current.size > options.maxEntries) {
+        current.delete(current.keys().next().value as string);
+      }
+      await persist(current);
+    },
+    async delete(key) {
+      const current = await load();
+      if (current.delete(key)) {
+        await persist(current);
+      }
+    },
+    async values(prefix = "") {
+      return Array.from((await load()).entries())
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([, value]) => value);
+    },
+  };
+}
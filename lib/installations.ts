@@ -0,0 +1,75 @@
+import { KeyValueStore } from "./storage.js";
+
+export interface UserAuthorization {
+  token: string;
+  scopes: string[];
+}
+
+// Everything we keep per workspace after the OAuth v2 exchange
+export interface Installation {
+  teamId: string;
+  teamName?: string;
+  appId?: string;
+  botToken?: string;
+  botUserId?: string;
+  botScopes?: string[];
+  users: Record<string, UserAuthorization>;
+  installedAt: string;
+}
+
+export interface InstallationStore {
+  get(teamId: string): Promise<Installation | undefined>;
+  save(installation: Installation): Promise<void>;
+  delete(teamId: string): Promise<void>;
+  getBotToken(teamId: string): Promise<string | undefined>;
+  getUserToken(teamId: string, userId: string): Promise<string | undefined>;
+  revokeTokens(teamId: string, revoked: { userIds?: string[]; botUserIds?: string[] }): Promise<void>;
+}
+
+export function createInstallationStore(store: KeyValueStore<Installation>): InstallationStore {
+  return {
+    get(teamId) {
+      return store.get(teamId);
+    },
+
+    // Re-installs and additional users authorizing keep previously stored user tokens
+    async save(installation) {
+      const existing = await store.get(installation.teamId);
+      await store.set(installation.teamId, {
+        ...existing,
+        ...installation,
+        botToken: installation.botToken ?? existing?.botToken,
+        users: { ...existing?.users, ...installation.users },
+      });
+    },
+
+    delete(teamId) {
+      return store.delete(teamId);
+    },
+
+    async getBotToken(teamId) {
+      return (await store.get(teamId))?.botToken;
+    },
+
+    async getUserToken(teamId, userId) {
+      return (await store.get(teamId))?.users[userId]?.token;
+    },
+
+    async revokeTokens(teamId, { userIds = [], botUserIds = [] }) {
+      const existing = await store.get(teamId);
+      if (!existing) {
+        return;
+      }
+      const users = { ...existing.users };
+      for (const userId of userIds) {
+        delete users[userId];
+      }
+      const botRevoked = existing.botUserId !== undefined && botUserIds.includes(existing.botUserId);
+      await store.set(teamId, {
+        ...existing,
+        users,
+        botToken: botRevoked ? undefined : existing.botToken,
+      });
+    },
+  };
+}
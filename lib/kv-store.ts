@@ -0,0 +1,61 @@
+import { KeyValueStore } from "./storage.js";
+
+// A Redis REST API (Upstash, Vercel KV); it only needs fetch, so it also works on the edge runtime
+export interface KvConfig {
+  url: string;
+  token: string;
+}
+
+export interface KvStoreOptions {
+  // Entries expire this many seconds after they were last written
+  ttlSeconds?: number;
+}
+
+// KV_REST_API_URL and KV_REST_API_TOKEN, as set by Vercel's KV/Upstash integration
+export function kvConfigFromEnv(env: Record<string, string | undefined>): KvConfig | undefined {
+  const url = env.KV_REST_API_URL;
+  const token = env.KV_REST_API_TOKEN;
+  return url && token ? { url, token } : undefined;
+}
+
+// Runs one Redis command, e.g. kvCommand(config, "GET", "key"), and returns its result
+export async function kvCommand(config: KvConfig, ...args: (string | number)[]): Promise<unknown> {
+  const res = await fetch(config.url, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${config.token}`, "Content-Type": "application/json" },
+    body: JSON.stringify(args),
+  });
+  const body = (await res.json()) as { result?: unknown; error?: string };
+  if (!res.ok || body.error) {
+    throw new Error(`KV ${args[0]} failed: ${body.error ?? res.status}`);
+  }
+  return body.result;
+}
+
+// Every key is stored under `prefix`, so several stores can share one database
+export function createKvStore<T>(config: KvConfig, prefix: string, options: KvStoreOptions = {}): KeyValueStore<T> {
+  const command = (...args: (string | number)[]) => kvCommand(config, ...args);
+
+  return {
+    async get(key) {
+      const raw = await command("GET", prefix + key);
+      return typeof raw === "string" ? (JSON.parse(raw) as T) : undefined;
+    },
+    async set(key, value) {
+      const expiry = options.ttlSeconds ? ["EX", options.ttlSeconds] : [];
+      await command("SET", prefix + key, JSON.stringify(value), ...expiry);
+    },
+    async delete(key) {
+      await command("DEL", prefix + key);
+    },
+    async values(keyPrefix = "") {
+      const pattern = `${(prefix + keyPrefix).replace(/[*?[\]\\]/g, "\\$&")}*`;
+      const keys = (await command("KEYS", pattern)) as string[];
+      if (keys.length === 0) {
+        return [];
+      }
+      const raws = (await command("MGET", ...keys)) as (string | null)[];
+      return raws.filter((raw): raw is string => typeof raw === "string").map((raw) => JSON.parse(raw) as T);
+    },
+  };
+}
@@ -0,0 +1,157 @@
+export interface LanguageProfile {
+  code: string;
+  name: string;
+  // Names and codes accepted by --language, lowercase
+  aliases: string[];
+  // Frequent function words used for detection, lowercase
+  stopwords: string[];
+  // Tone guidance that only applies when writing in this language, general and per style id
+  guidance: string[];
+  styleGuidance?: Record<string, string[]>;
+}
+
+const LANGUAGES: LanguageProfile[] = [
+  {
+    code: "en",
+    name: "English",
+    aliases: ["en", "english", "eng"],
+    stopwords: ["the", "and", "is", "are", "you", "this", "that", "to", "of", "it", "please", "can", "could", "need", "what", "why", "with", "for", "have", "not", "me", "i", "we", "be", "was", "will"],
+    guidance: [],
+  },
+  {
+    code: "de",
+    name: "German",
+    aliases: ["de", "german", "deutsch", "ger"],
+    stopwords: ["der", "die", "das", "und", "ist", "nicht", "ich", "du", "sie", "wir", "ein", "eine", "mit", "auf", "für", "bitte", "warum", "noch", "schon", "auch", "dass", "mir", "dich", "bis", "heute", "kannst", "können", "habe", "hast", "sofort"],
+    guidance: [
+      "Keep the original form of address: if it uses \"du\", keep \"du\"; if it uses \"Sie\", keep \"Sie\"",
+      "Use natural German phrasing rather than literal translations of English politeness formulas",
+    ],
+    styleGuidance: {
+      casual: ["\"Hey\", \"Hi\" or \"Moin\" are fine openers; \"du\" is normal on Slack"],
+      formal: ["Prefer \"Sie\" unless the original clearly uses \"du\"", "Use polite subjunctive forms such as \"Könnten Sie...\""],
+    },
+  },
+  {
+    code: "fr",
+    name: "French",
+    aliases: ["fr", "french", "français", "francais", "fre"],
+    stopwords: ["le", "la", "les", "et", "est", "pas", "je", "tu", "vous", "nous", "un", "une", "des", "avec", "pour", "que", "qui", "ce", "ça", "sur", "merci", "pourquoi", "faire", "fais", "dans", "du", "au", "moi", "svp", "tout", "suite"],
+    guidance: [
+      "Keep the original form of address: \"tu\" stays \"tu\" and \"vous\" stays \"vous\"",
+      "Use natural French phrasing rather than literal translations of English politeness formulas",
+    ],
+    styleGuidance: {
+      casual: ["\"Salut\" or \"Coucou\" are fine openers"],
+      formal: ["Prefer \"vous\" unless the original clearly uses \"tu\"", "Use polite conditional forms such as \"Pourriez-vous...\""],
+    },
+  },
+  {
+    code: "es",
+    name: "Spanish",
+    aliases: ["es", "spanish", "español", "espanol", "spa"],
+    stopwords: ["el", "la", "los", "las", "y", "es", "no", "yo", "tú", "usted", "un", "una", "con", "para", "por", "que", "qué", "esto", "eso", "gracias", "ahora", "necesito", "hacer", "del", "al", "lo", "pero", "muy", "ya", "porque"],
+    guidance: [
+      "Keep the original form of address: \"tú\" stays \"tú\" and \"usted\" stays \"usted\"",
+    ],
+    styleGuidance: {
+      casual: ["\"Hola\" is a fine opener"],
+      formal: ["Prefer \"usted\" unless the original clearly uses \"tú\"", "Use polite conditional forms such as \"¿Podría...?\""],
+    },
+  },
+  {
+    code: "it",
+    name: "Italian",
+    aliases: ["it", "italian", "italiano", "ita"],
+    stopwords: ["il", "lo", "gli", "e", "è", "non", "io", "tu", "lei", "noi", "un", "una", "con", "per", "che", "questo", "questa", "grazie", "adesso", "subito", "fare", "del", "della", "sono", "ma", "mi", "ti", "perché"],
+    guidance: ["Keep the original form of address: \"tu\" stays \"tu\" and \"Lei\" stays \"Lei\""],
+  },
+  {
+    code: "nl",
+    name: "Dutch",
+    aliases: ["nl", "dutch", "nederlands", "dut"],
+    stopwords: ["de", "het", "een", "en", "is", "niet", "ik", "jij", "je", "u", "wij", "we", "met", "voor", "dat", "dit", "waarom", "nu", "graag", "bedankt", "moet", "kun", "kunt", "zijn", "van", "op", "ook", "maar"],
+    guidance: ["Keep the original form of address: \"je/jij\" stays informal and \"u\" stays formal"],
+  },
+  {
+    code: "pt",
+    name: "Portuguese",
+    aliases: ["pt", "portuguese", "português", "portugues", "por"],
+    stopwords: ["o", "os", "as", "e", "é", "não", "eu", "você", "nós", "um", "uma", "com", "para", "que", "isso", "isto", "obrigado", "obrigada", "agora", "preciso", "fazer", "do", "da", "no", "na", "mas", "por", "favor"],
+    guidance: ["Keep the original form of address (\"você\", \"tu\" or \"o senhor\")"],
+  },
+];
+
+// Scripts that identify a language on their own, checked before word matching
+const SCRIPT_LANGUAGES: { pattern: RegExp; code: string; name: string }[] = [
+  { pattern: /[\u3040-\u30ff]/, code: "ja", name: "Japanese" },
+  { pattern: /[\uac00-\ud7af]/, code: "ko", name: "Korean" },
+  { pattern: /[\u4e00-\u9fff]/, code: "zh", name: "Chinese" },
+  { pattern: /[\u0400-\u04ff]/, code: "ru", name: "Russian" },
+  { pattern: /[\u0600-\u06ff]/, code: "ar", name: "Arabic" },
+];
+
+// Characters that only occur in one of the supported Latin-script languages
+const CHARACTER_HINTS: { pattern: RegExp; code: string }[] = [
+  { pattern: /[äöüß]/, code: "de" },
+  { pattern: /[èêëàâçœù]/, code: "fr" },
+  { pattern: /[ñ¿¡]/, code: "es" },
+  { pattern: /[ãõ]/, code: "pt" },
+];
+
+export interface DetectedLanguage {
+  code: string;
+  name: string;
+}
+
+export function getLanguage(code: string): LanguageProfile | undefined {
+  return LANGUAGES.find((language) => language.code === code);
+}
+
+// Resolves a --language value ("German", "de", "Deutsch") to a known profile
+export function resolveLanguage(name: string): LanguageProfile | undefined {
+  const key = name.trim().toLowerCase();
+  return LANGUAGES.find((language) => language.aliases.includes(key));
+}
+
+// Heuristic detection from stopwords and language-specific characters; undefined when unsure
+export function detectLanguage(text: string): DetectedLanguage | undefined {
+  // Ignore Slack mentions, links, emoji codes and code so they don't skew the counts
+  const cleaned = text
+    .replace(/<[^>]*>/g, " ")
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/`[^`]*`/g, " ")
+    .replace(/:[a-z0-9_+-]+:/g, " ")
+    .toLowerCase();
+
+  for (const script of SCRIPT_LANGUAGES) {
+    if (script.pattern.test(cleaned)) {
+      return { code: script.code, name: script.name };
+    }
+  }
+
+  const words = cleaned.match(/[\p{L}']+/gu) ?? [];
+  if (words.length === 0) {
+    return undefined;
+  }
+
+  const scores = new Map<string, number>();
+  for (const language of LANGUAGES) {
+    const stopwords = new Set(language.stopwords);
+    scores.set(language.code, words.filter((word) => stopwords.has(word)).length);
+  }
+  for (const hint of CHARACTER_HINTS) {
+    if (hint.pattern.test(cleaned)) {
+      scores.set(hint.code, (scores.get(hint.code) ?? 0) + 2);
+    }
+  }
+
+  const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+  const [best, runnerUp] = ranked;
+  // Need at least two signals and a clear winner; one-word messages like "ok" stay undetected
+  if (best[1] < 2 || best[1] === runnerUp[1]) {
+    return undefined;
+  }
+  const profile = getLanguage(best[0])!;
+  return { code: profile.code, name: profile.name };
+}
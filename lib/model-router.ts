@@ -0,0 +1,239 @@
+import { createGateway } from "ai";
+import type { LanguageModel } from "ai";
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+
+export type ModelTask = "reword" | "refine" | "tone_check" | "explain";
+
+export type MessageClass = "short" | "long";
+
+// Every provider reads its key from an env var, so config files never contain secrets
+export type ProviderConfig =
+  | { type: "gateway"; apiKeyEnv?: string }
+  | { type: "anthropic"; apiKeyEnv?: string; baseURL?: string }
+  | { type: "openai-compatible"; baseURL: string; apiKeyEnv?: string };
+
+export interface ModelTarget {
+  provider: string;
+  model: string;
+}
+
+// First matching rule wins; a rule without task/messageClass matches everything
+export interface RouteRule extends ModelTarget {
+  task?: ModelTask;
+  messageClass?: MessageClass;
+  // Used when the primary model errors or times out
+  fallback?: ModelTarget;
+}
+
+export interface RouterConfig {
+  providers: Record<string, ProviderConfig>;
+  routes: RouteRule[];
+  // Messages shorter than this many characters are "short"
+  shortMessageThreshold: number;
+  // Cheaper model for workspaces over their usage quota
+  economy?: ModelTarget;
+}
+
+export interface ModelRoute extends ModelTarget {
+  task: ModelTask;
+  messageClass: MessageClass;
+  fallback?: ModelTarget;
+}
+
+const TASKS: ModelTask[] = ["reword", "refine", "tone_check", "explain"];
+const MESSAGE_CLASSES: MessageClass[] = ["short", "long"];
+const PROVIDER_TYPES = ["gateway", "anthropic", "openai-compatible"];
+
+// Sonnet for short messages (faster), Opus for complex ones (better quality)
+export const DEFAULT_ROUTER_CONFIG: RouterConfig = {
+  providers: { gateway: { type: "gateway" } },
+  routes: [
+    {
+      messageClass: "short",
+      provider: "gateway",
+      model: "anthropic/claude-sonnet-4-20250514",
+      fallback: { provider: "gateway", model: "anthropic/claude-opus-4-20250514" },
+    },
+    {
+      provider: "gateway",
+      model: "anthropic/claude-opus-4-20250514",
+      fallback: { provider: "gateway", model: "anthropic/claude-sonnet-4-20250514" },
+    },
+  ],
+  shortMessageThreshold: 50,
+  economy: { provider: "gateway", model: "anthropic/claude-3-5-haiku-20241022" },
+};
+
+function invalid(reason: string): Error {
+  return new Error(`Invalid model router config: ${reason}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value !== "";
+}
+
+export function parseRouterConfig(json: string): RouterConfig {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    throw invalid(`not valid JSON (${err})`);
+  }
+  const raw = isRecord(parsed) ? parsed : {};
+
+  const rawProviders = raw.providers ?? DEFAULT_ROUTER_CONFIG.providers;
+  if (!isRecord(rawProviders)) {
+    throw invalid("providers must be an object");
+  }
+  for (const [name, provider] of Object.entries(rawProviders)) {
+    const type = isRecord(provider) ? provider.type : undefined;
+    if (typeof type !== "string" || !PROVIDER_TYPES.includes(type)) {
+      throw invalid(`provider "${name}" has unknown type "${type}"`);
+    }
+    if (type === "openai-compatible" && typeof (provider as Record<string, unknown>).baseURL !== "string") {
+      throw invalid(`provider "${name}" needs a baseURL`);
+    }
+  }
+  const providers = rawProviders as Record<string, ProviderConfig>;
+  const isProvider = (value: unknown) => typeof value === "string" && Object.hasOwn(providers, value);
+
+  const routes = raw.routes;
+  if (!Array.isArray(routes) || routes.length === 0) {
+    throw invalid("routes must be a non-empty array");
+  }
+  routes.forEach((rule: unknown, i) => {
+    const { provider, model, fallback, task, messageClass } = isRecord(rule) ? rule : ({} as Record<string, unknown>);
+    if (!isProvider(provider)) {
+      throw invalid(`route ${i} uses unknown provider "${provider}"`);
+    }
+    if (!isNonEmptyString(model)) {
+      throw invalid(`route ${i} needs a model`);
+    }
+    const fallbackProvider = isRecord(fallback) ? fallback.provider : undefined;
+    if (fallback !== undefined && !isProvider(fallbackProvider)) {
+      throw invalid(`route ${i} falls back to unknown provider "${fallbackProvider}"`);
+    }
+    if (isRecord(fallback) && !isNonEmptyString(fallback.model)) {
+      throw invalid(`route ${i} needs a fallback model`);
+    }
+    if (task !== undefined && !TASKS.includes(task as ModelTask)) {
+      throw invalid(`route ${i} has unknown task "${task}"`);
+    }
+    if (messageClass !== undefined && !MESSAGE_CLASSES.includes(messageClass as MessageClass)) {
+      throw invalid(`route ${i} has unknown messageClass "${messageClass}"`);
+    }
+  });
+  const economy = raw.economy;
+  const economyProvider = isRecord(economy) ? economy.provider : undefined;
+  if (economy !== undefined && !isProvider(economyProvider)) {
+    throw invalid(`economy uses unknown provider "${economyProvider}"`);
+  }
+  const last = routes.at(-1) as RouteRule;
+  if (last.task !== undefined || last.messageClass !== undefined) {
+    throw invalid("the last route must be a catch-all without task or messageClass");
+  }
+  const threshold = raw.shortMessageThreshold ?? DEFAULT_ROUTER_CONFIG.shortMessageThreshold;
+  if (typeof threshold !== "number") {
+    throw invalid("shortMessageThreshold must be a number");
+  }
+
+  return {
+    providers,
+    routes: routes as RouteRule[],
+    shortMessageThreshold: threshold,
+    economy: (economy as ModelTarget | undefined) ?? defaultEconomy(providers),
+  };
+}
+
+// Without an explicit economy model, the first gateway provider gets the default one, so
+// "degrade" quotas still have something cheaper to switch to
+function defaultEconomy(providers: Record<string, ProviderConfig>): ModelTarget | undefined {
+  const gateway = Object.keys(providers).find((name) => providers[name].type === "gateway");
+  return gateway ? { provider: gateway, model: DEFAULT_ROUTER_CONFIG.economy!.model } : undefined;
+}
+
+// MODEL_ROUTER_JSON wins over a config file; OPENAI_COMPATIBLE_BASE_URL alone sends everything
+// to a local server (llama.cpp, Ollama, ...) so dev and CI can run offline
+export function routerConfigFromEnv(
+  env: Record<string, string | undefined>,
+  fileContents?: string
+): RouterConfig {
+  if (env.MODEL_ROUTER_JSON) {
+    return parseRouterConfig(env.MODEL_ROUTER_JSON);
+  }
+  if (fileContents !== undefined) {
+    return parseRouterConfig(fileContents);
+  }
+  if (env.OPENAI_COMPATIBLE_BASE_URL) {
+    return {
+      providers: {
+        local: { type: "openai-compatible", baseURL: env.OPENAI_COMPATIBLE_BASE_URL, apiKeyEnv: "OPENAI_COMPATIBLE_API_KEY" },
+      },
+      routes: [{ provider: "local", model: env.OPENAI_COMPATIBLE_MODEL || "llama3.1" }],
+      shortMessageThreshold: DEFAULT_ROUTER_CONFIG.shortMessageThreshold,
+    };
+  }
+  return DEFAULT_ROUTER_CONFIG;
+}
+
+export function classifyMessage(messageLength: number, config: RouterConfig): MessageClass {
+  return messageLength < config.shortMessageThreshold ? "short" : "long";
+}
+
+// `economy` swaps in the economy model (when configured) instead of the matching rule
+export function routeModel(config: RouterConfig, task: ModelTask, messageLength: number, economy = false): ModelRoute {
+  const messageClass = classifyMessage(messageLength, config);
+  if (economy && config.economy) {
+    return { task, messageClass, provider: config.economy.provider, model: config.economy.model };
+  }
+  const rule = config.routes.find(
+    (r) => (r.task === undefined || r.task === task) && (r.messageClass === undefined || r.messageClass === messageClass)
+  )!;
+  return { task, messageClass, provider: rule.provider, model: rule.model, fallback: rule.fallback };
+}
+
+// "provider:model", as recorded in logs and feedback
+export function describeRoute(target: ModelTarget): string {
+  return `${target.provider}:${target.model}`;
+}
+
+// Creates provider clients lazily and turns a route (or its fallback) into a model instance
+export function createModelResolver(
+  config: RouterConfig,
+  env: Record<string, string | undefined>
+): (target: ModelTarget) => LanguageModel {
+  const clients = new Map<string, (modelId: string) => LanguageModel>();
+
+  function client(name: string): (modelId: string) => LanguageModel {
+    const existing = clients.get(name);
+    if (existing) {
+      return existing;
+    }
+    const provider = config.providers[name];
+    let created: (modelId: string) => LanguageModel;
+    switch (provider.type) {
+      case "gateway":
+        created = createGateway({ apiKey: env[provider.apiKeyEnv ?? "AI_GATEWAY_API_KEY"] });
+        break;
+      case "anthropic":
+        created = createAnthropic({ apiKey: env[provider.apiKeyEnv ?? "ANTHROPIC_API_KEY"], baseURL: provider.baseURL });
+        break;
+      case "openai-compatible":
+        created = createOpenAICompatible({
+          name,
+          baseURL: provider.baseURL,
+          apiKey: provider.apiKeyEnv ? env[provider.apiKeyEnv] : undefined,
+        }).chatModel;
+        break;
+    }
+    clients.set(name, created);
+    return created;
+  }
+
+  return (target) => client(target.provider)(target.model);
+}
@@ -0,0 +1,115 @@
+export type SegmentKind = "prose" | "code_block" | "inline_code" | "quote" | "list";
+
+// Concatenating every segment's text gives back the original message
+export interface Segment {
+  kind: SegmentKind;
+  text: string;
+}
+
+// Protected segments replaced by [[P1]], [[P2]], ... so only the prose reaches the model
+export interface MaskedMessage {
+  text: string;
+  segments: string[];
+}
+
+export const PLACEHOLDER_PATTERN = /\[\[P(\d+)\]\]/g;
+
+const CODE_BLOCK = /```[\s\S]*?```/g;
+const INLINE_CODE = /`[^`\n]+`/g;
+// Slack sends ">" escaped as "&gt;" in event payloads
+const QUOTE_LINE = /^\s*(>|&gt;)/;
+const LIST_LINE = /^\s*([•◦▪*-]|\d+[.)])\s+\S/;
+
+function pushSegment(segments: Segment[], kind: SegmentKind, text: string): void {
+  if (!text) {
+    return;
+  }
+  const last = segments.at(-1);
+  // Consecutive lines of the same block kind form one segment; inline code never merges
+  if (last && last.kind === kind && kind !== "inline_code") {
+    last.text += text;
+  } else {
+    segments.push({ kind, text });
+  }
+}
+
+function segmentProse(segments: Segment[], text: string): void {
+  let index = 0;
+  for (const match of text.matchAll(INLINE_CODE)) {
+    pushSegment(segments, "prose", text.slice(index, match.index));
+    pushSegment(segments, "inline_code", match[0]);
+    index = match.index! + match[0].length;
+  }
+  pushSegment(segments, "prose", text.slice(index));
+}
+
+function segmentLines(segments: Segment[], text: string): void {
+  const lines = text.split(/(?<=\n)/);
+  for (const line of lines) {
+    if (QUOTE_LINE.test(line)) {
+      pushSegment(segments, "quote", line);
+    } else if (LIST_LINE.test(line)) {
+      pushSegment(segments, "list", line);
+    } else {
+      segmentProse(segments, line);
+    }
+  }
+}
+
+// Splits Slack mrkdwn into prose and protected segments (code, quotes and lists)
+export function segmentMrkdwn(text: string): Segment[] {
+  const segments: Segment[] = [];
+  let index = 0;
+  for (const match of text.matchAll(CODE_BLOCK)) {
+    segmentLines(segments, text.slice(index, match.index));
+    pushSegment(segments, "code_block", match[0]);
+    index = match.index! + match[0].length;
+  }
+  segmentLines(segments, text.slice(index));
+  return segments;
+}
+
+export function maskMrkdwn(text: string): MaskedMessage {
+  const protectedSegments: string[] = [];
+  const masked = segmentMrkdwn(text)
+    .map((segment) => {
+      if (segment.kind === "prose") {
+        return segment.text;
+      }
+      // Block segments keep their trailing newline outside the placeholder so lines stay separate
+      const body = segment.text.replace(/\n$/, "");
+      protectedSegments.push(body);
+      return `[[P${protectedSegments.length}]]${segment.text.slice(body.length)}`;
+    })
+    .join("");
+  return { text: masked, segments: protectedSegments };
+}
+
+// Masks another text (e.g. a previous rewording) with the same placeholders
+export function applyMask(text: string, masked: MaskedMessage): string {
+  return masked.segments.reduce(
+    (result, segment, i) => result.split(segment).join(`[[P${i + 1}]]`),
+    text
+  );
+}
+
+// Puts the protected segments back; a placeholder the model repeated is only filled once
+export function restoreMrkdwn(text: string, masked: MaskedMessage): string {
+  const used = new Set<number>();
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, n: string) => {
+    const index = Number(n) - 1;
+    if (index >= masked.segments.length) {
+      return placeholder;
+    }
+    if (used.has(index)) {
+      return "";
+    }
+    used.add(index);
+    return masked.segments[index];
+  });
+}
+
+// False when the message is nothing but code, quotes and lists, so there is nothing to reword
+export function hasProse(masked: MaskedMessage): boolean {
+  return /\p{L}/u.test(masked.text.replace(PLACEHOLDER_PATTERN, ""));
+}
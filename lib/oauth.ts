@@ -0,0 +1,94 @@
+import { Installation } from "./installations.js";
+import { signHmacSha256, timingSafeEqual } from "./slack.js";
+
+export const BOT_SCOPES = ["commands", "chat:write", "app_mentions:read", "channels:history", "groups:history", "im:history"];
+export const USER_SCOPES = ["chat:write"];
+
+// State tokens older than this are rejected by the callback
+const STATE_MAX_AGE_SECONDS = 10 * 60;
+
+export interface OAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  stateSecret: string;
+}
+
+export interface OAuthV2AccessResponse {
+  ok: boolean;
+  error?: string;
+  app_id?: string;
+  access_token?: string;
+  scope?: string;
+  bot_user_id?: string;
+  team?: { id: string; name?: string };
+  authed_user?: { id: string; scope?: string; access_token?: string };
+}
+
+export function createInstallUrl(config: OAuthConfig, state: string): string {
+  const url = new URL("https://slack.com/oauth/v2/authorize");
+  url.searchParams.set("client_id", config.clientId);
+  url.searchParams.set("scope", BOT_SCOPES.join(","));
+  url.searchParams.set("user_scope", USER_SCOPES.join(","));
+  url.searchParams.set("redirect_uri", config.redirectUri);
+  url.searchParams.set("state", state);
+  return url.toString();
+}
+
+// Stateless CSRF protection: "<issued-at>.<nonce>.<hmac>" signed with the state secret
+export async function createOAuthState(secret: string, now = Date.now()): Promise<string> {
+  const payload = `${Math.floor(now / 1000)}.${crypto.randomUUID()}`;
+  return `${payload}.${await signHmacSha256(secret, payload)}`;
+}
+
+export async function verifyOAuthState(secret: string, state: string | null, now = Date.now()): Promise<boolean> {
+  const parts = state?.split(".") ?? [];
+  if (parts.length !== 3) {
+    return false;
+  }
+  const [issuedAt, nonce, signature] = parts;
+  const age = Math.floor(now / 1000) - parseInt(issuedAt, 10);
+  if (!(age >= 0 && age <= STATE_MAX_AGE_SECONDS)) {
+    return false;
+  }
+  return timingSafeEqual(signature, await signHmacSha256(secret, `${issuedAt}.${nonce}`));
+}
+
+// oauth.v2.access only accepts form-encoded bodies, so it doesn't go through callSlackApi
+export async function exchangeOAuthCode(config: OAuthConfig, code: string): Promise<OAuthV2AccessResponse> {
+  const res = await fetch("https://slack.com/api/oauth.v2.access", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+      code,
+      redirect_uri: config.redirectUri,
+    }).toString(),
+  });
+  if (!res.ok) {
+    return { ok: false, error: `http_${res.status}` };
+  }
+  return (await res.json()) as OAuthV2AccessResponse;
+}
+
+export function installationFromOAuth(response: OAuthV2AccessResponse): Installation {
+  const users: Installation["users"] = {};
+  if (response.authed_user?.access_token) {
+    users[response.authed_user.id] = {
+      token: response.authed_user.access_token,
+      scopes: response.authed_user.scope?.split(",") ?? [],
+    };
+  }
+
+  return {
+    teamId: response.team?.id ?? "",
+    teamName: response.team?.name,
+    appId: response.app_id,
+    botToken: response.access_token,
+    botUserId: response.bot_user_id,
+    botScopes: response.scope?.split(","),
+    users,
+    installedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,1897 @@
+import { generateText, streamText, jsonSchema, Output } from "ai";
+import type { LanguageModel } from "ai";
+import {
+  verifySlackRequest,
+  parseSlashCommandPayload,
+  createDualVersionResponse,
+  createErrorResponse,
+  createHelpResponse,
+  createStylesResponse,
+  createSettingsResponse,
+  createUsageResponse,
+  createRewordModal,
+  readRewordModalValues,
+  createFeedbackModal,
+  createToneCheckResponse,
+  TONE_CHECK_SHORTCUT_ID,
+  readFeedbackComment,
+  timingSafeEqual,
+  FEEDBACK_MODAL_CALLBACK_ID,
+  REWORD_MODAL_CALLBACK_ID,
+  RewordModalMetadata,
+  RewordModalState,
+  RewordedVersions,
+  VersionResponseOptions,
+  PhraseExplanation,
+  BlockActionsPayload,
+  ShortcutPayload,
+  SlackInteractionPayload,
+  ViewSubmissionPayload,
+} from "./slack.js";
+import {
+  createStylePrompt,
+  createCombinedStylePrompt,
+  createRewordUserPrompt,
+  createRefineUserPrompt,
+  createRegenerateUserPrompt,
+  createToneCheckUserPrompt,
+  createEntityRetryNote,
+  createExplainUserPrompt,
+  EXPLAIN_SYSTEM_PROMPT,
+  PROMPT_VERSION,
+  TONE_CHECK_SYSTEM_PROMPT,
+} from "./prompts.js";
+import { DetectedLanguage, detectLanguage, resolveLanguage } from "./language.js";
+import { createThrottledUpdater } from "./streaming.js";
+import { applyMask, hasProse, maskMrkdwn, restoreMrkdwn } from "./mrkdwn.js";
+import { Entity, extractEntities, findMissingEntities, repairEntities } from "./entities.js";
+import { ModelTask, RouterConfig, createModelResolver, describeRoute, routeModel } from "./model-router.js";
+import {
+  CombinedVersions,
+  createCombinedSchema,
+  parseCombinedVersions,
+  resolveGenerationMode,
+} from "./combined.js";
+import { TONE_CHECK_SCHEMA, ToneCheckResult, normalizeToneCheck } from "./tone-check.js";
+import { EXPLANATION_SCHEMA, normalizeExplanations } from "./explanations.js";
+import { RewordStyle, DEFAULT_STYLE_IDS, listStyles, resolveStyles } from "./styles.js";
+import { RewordOptions, parseRewordCommand } from "./commands.js";
+import { PreferencesStore, applySettingsArgs, mergeOptions } from "./preferences.js";
+import { WorkspaceConfig, WorkspaceConfigStore, filterEnabledStyles, isStyleEnabled } from "./workspace.js";
+import { ConversationState, ConversationStore, classifyDirectMessage } from "./conversations.js";
+import { RewordResult, ResultStore, createResultId, decodeVersionRef } from "./results.js";
+import {
+  FeedbackRating,
+  FeedbackStore,
+  decodeFeedbackValue,
+  formatFeedbackJsonl,
+  hashMessage,
+} from "./feedback.js";
+import { VersionCache } from "./cache.js";
+import {
+  QuotaState,
+  UsageMeter,
+  UsageStore,
+  createUsageMeter,
+  estimateCost,
+  evaluateQuota,
+  summarizeUsage,
+  usageMonth,
+} from "./usage.js";
+import { RateLimiter, describeRateLimit, resolveRateLimits } from "./rate-limit.js";
+import {
+  fetchThreadParent,
+  getTokenUserId,
+  openView,
+  postMessage,
+  updateView,
+} from "./slack-api.js";
+import { AppMentionEvent, DirectMessageEvent, extractQuotedText, isThreadReply, stripBotMention } from "./events.js";
+import { InstallationStore } from "./installations.js";
+import {
+  OAuthConfig,
+  createInstallUrl,
+  createOAuthState,
+  exchangeOAuthCode,
+  installationFromOAuth,
+  verifyOAuthState,
+} from "./oauth.js";
+
+// Runtimes that may stop once the response is sent (Vercel edge, serverless) pass waitUntil
+// to keep background work alive; a long-running server can leave it out
+export interface RequestContext {
+  waitUntil?: (promise: Promise<unknown>) => void;
+}
+
+export type SlackHandler = (req: Request, context?: RequestContext) => Promise<Response>;
+
+// Every store the pipeline reads or writes; the host picks the backend (files, memory, a KV service)
+export interface PipelineStores {
+  preferences: PreferencesStore;
+  workspaces: WorkspaceConfigStore;
+  installations: InstallationStore;
+  feedback: FeedbackStore;
+  usage: UsageStore;
+  results: ResultStore;
+  conversations: ConversationStore;
+  rateLimiter: RateLimiter;
+  versionCache?: VersionCache;
+}
+
+export interface PipelineConfig {
+  env: Record<string, string | undefined>;
+  stores: PipelineStores;
+  routerConfig: RouterConfig;
+}
+
+// Request handlers for every Slack endpoint, built on the fetch API's Request and Response
+export interface SlackPipeline {
+  reword: SlackHandler;
+  toneCheck: SlackHandler;
+  shortcut: SlackHandler;
+  interactive: SlackHandler;
+  events: SlackHandler;
+  install: SlackHandler;
+  oauthCallback: SlackHandler;
+  feedbackExport: SlackHandler;
+}
+
+// response_url accepts five posts: up to three progress updates, the final result and one spare for errors
+const STREAM_MAX_UPDATES = 3;
+const STREAM_UPDATE_INTERVAL_MS = 1500;
+
+// Extra attempts when a version drops a mention, link or other literal from the original
+const ENTITY_RETRIES = 1;
+
+// Per-call limit before giving up on a model and trying the route's fallback. Vercel stops a function
+// after its maxDuration (60s in vercel.json), which has to leave room for the primary, its fallback and
+// an entity retry, so a hanging model still ends in a result or a retryable "unavailable" version.
+const MODEL_TIMEOUT_MS = 12_000;
+
+// Sampling temperature for Regenerate, high enough to get a genuinely different suggestion
+const REGENERATE_TEMPERATURE = 1;
+
+function log(stage: string, data?: Record<string, unknown>) {
+  console.log(JSON.stringify({ ts: new Date().toISOString(), stage, ...data }));
+}
+
+async function postToResponseUrl(responseUrl: string, body: object): Promise<void> {
+  log("posting", { url: responseUrl.slice(0, 50) });
+  try {
+    const res = await fetch(responseUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const responseText = await res.text();
+    log("posted", { status: res.status, ok: res.ok, response: responseText.slice(0, 200) });
+  } catch (err) {
+    log("post_error", { error: String(err) });
+  }
+}
+
+// Who a request is for, so usage is billed to the right user and workspace
+interface Requester {
+  teamId: string;
+  userId: string;
+}
+
+interface SelectedModel {
+  model: LanguageModel;
+  // "provider:model" for logs and stored results
+  name: string;
+  fallback?: { model: LanguageModel; name: string };
+  // Token usage of every call made with this selection, recorded once the request is done
+  meter: UsageMeter;
+}
+
+// Runs a model call, retrying it once on the fallback model if the primary errors or times out.
+// `call` gets the model's name so it can add the call's token usage to the meter.
+async function callWithFallback<T>(
+  selected: SelectedModel,
+  call: (model: LanguageModel, name: string) => Promise<T>,
+  data?: Record<string, unknown>
+): Promise<T> {
+  try {
+    return await call(selected.model, selected.name);
+  } catch (err) {
+    if (!selected.fallback) {
+      throw err;
+    }
+    log("model_fallback", { ...data, from: selected.name, to: selected.fallback.name, error: String(err) });
+    return call(selected.fallback.model, selected.fallback.name);
+  }
+}
+
+interface GenerateOptions {
+  sourceLanguage?: DetectedLanguage;
+  // Versions to move away from when regenerating
+  previous?: RewordedVersions;
+  // Called with the partial versions while they stream in
+  onProgress?: (partial: RewordedVersions) => void;
+}
+
+// Collects a streamed completion, reporting the accumulated text after every chunk
+async function collectStream(textStream: AsyncIterable<string>, onText: (text: string) => void): Promise<string> {
+  let text = "";
+  for await (const delta of textStream) {
+    text += delta;
+    onText(text);
+  }
+  return text;
+}
+
+interface GeneratedVersions {
+  versions: RewordedVersions;
+  // Styles whose calls failed on both models; the others are still shown
+  unavailable: string[];
+}
+
+// Generates one version, repairing or retrying until every entity of the original survives.
+// If retries run out, the attempt missing the fewest entities wins.
+// Only the first attempt streams; retries replace the streamed text once they finish.
+async function generateCheckedVersion(
+  styleId: string,
+  entities: Entity[],
+  generate: (retryNote?: string, onText?: (text: string) => void) => Promise<string>,
+  onText?: (text: string) => void
+): Promise<string> {
+  let best = repairEntities(await generate(undefined, onText), entities);
+  let missing = findMissingEntities(entities, best);
+
+  for (let retry = 1; missing.length > 0 && retry <= ENTITY_RETRIES; retry++) {
+    log("entities_retry", { styleId, retry, missing: missing.map((e) => e.kind) });
+    let candidate: string;
+    try {
+      candidate = repairEntities(await generate(createEntityRetryNote(missing)), entities);
+    } catch (err) {
+      // A failed retry still leaves the first attempt, which beats no version at all
+      log("entities_retry_err", { styleId, error: String(err) });
+      break;
+    }
+    const candidateMissing = findMissingEntities(entities, candidate);
+    if (candidateMissing.length < missing.length) {
+      best = candidate;
+      missing = candidateMissing;
+    }
+  }
+
+  if (missing.length > 0) {
+    log("entities_missing", { styleId, missing: missing.map((e) => e.kind) });
+  }
+  return best;
+}
+
+// Language labels for the result's context line
+function languageLabels(message: string, options: RewordOptions) {
+  return {
+    detectedLanguage: detectLanguage(message)?.name,
+    targetLanguage: options.language ? resolveLanguage(options.language)?.name ?? options.language : undefined,
+  };
+}
+
+function omitKeys<T>(record: Record<string, T>, keys: string[]): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).filter(([key]) => !keys.includes(key)));
+}
+
+function toggleStyle(styleIds: string[], styleId: string): string[] {
+  return styleIds.includes(styleId) ? styleIds.filter((s) => s !== styleId) : [...styleIds, styleId];
+}
+
+const DM_HELP =
+  "Send me a draft and I'll reply with reworded versions. Follow up with things like \"more formal\", \"shorter\" or \"try again\" to refine the last result, or send `reset` to start over.";
+
+const DM_HINT = "_Reply with e.g. “more formal” or “shorter” to refine, or send a new draft._";
+
+// Work that finishes after Slack got its ack; without waitUntil the promise just keeps running
+function defer(context: RequestContext | undefined, task: Promise<unknown>): void {
+  const guarded = task.catch((err) => log("task_error", { error: String(err) }));
+  context?.waitUntil?.(guarded);
+}
+
+function json(body: unknown, status = 200): Response {
+  return Response.json(body, { status });
+}
+
+function plainText(body: string, status = 200): Response {
+  return new Response(body, { status, headers: { "Content-Type": "text/plain; charset=UTF-8" } });
+}
+
+// The Slack request pipeline, shared by the Node server and the Vercel edge functions.
+// It only uses fetch-API types, so the host supplies env, stores and waitUntil.
+export function createSlackPipeline({ env, stores, routerConfig }: PipelineConfig): SlackPipeline {
+  const {
+    preferences: preferencesStore,
+    workspaces: workspaceStore,
+    installations: installationStore,
+    feedback: feedbackStore,
+    usage: usageStore,
+    results: resultStore,
+    conversations: conversationStore,
+    rateLimiter,
+    versionCache,
+  } = stores;
+  const resolveModel = createModelResolver(routerConfig, env);
+
+  // GENERATION_MODE=combined asks for every style in one structured call instead of one call per style
+  const generationMode = resolveGenerationMode(env.GENERATION_MODE);
+
+  // Routes a task to a provider and model, plus the fallback to use on errors and timeouts.
+  // Workspaces over a "degrade" quota get the router's economy model instead.
+  async function selectModel(
+    id: string,
+    requester: Requester,
+    workspace: WorkspaceConfig,
+    task: ModelTask,
+    messageLength: number
+  ): Promise<SelectedModel> {
+    const economy = (await quotaState(requester.teamId, workspace)) === "degrade";
+    if (economy && !routerConfig.economy) {
+      log("economy_missing", { id, teamId: requester.teamId });
+    }
+    const route = routeModel(routerConfig, task, messageLength, economy);
+    log("model_route", { id, ...route, economy });
+    return {
+      model: resolveModel(route),
+      name: describeRoute(route),
+      fallback: route.fallback && { model: resolveModel(route.fallback), name: describeRoute(route.fallback) },
+      meter: createUsageMeter(),
+    };
+  }
+
+  async function quotaState(teamId: string, workspace: WorkspaceConfig): Promise<QuotaState> {
+    if (!workspace.quota) {
+      return "ok";
+    }
+    return evaluateQuota(await usageStore.teamTotal(usageMonth(), teamId), workspace.quota);
+  }
+
+  // Adds the selection's token usage to the monthly totals of the requester and model
+  async function recordUsage(id: string, requester: Requester, selected: SelectedModel): Promise<void> {
+    for (const { model, usage, calls } of selected.meter.totals()) {
+      log("usage", { id, teamId: requester.teamId, model, calls, ...usage, costUsd: estimateCost(model, usage) });
+      await usageStore.record(usageMonth(), requester.teamId, requester.userId, model, usage, calls);
+    }
+  }
+
+  // Refuses workspaces over a "refuse" quota, then spends one request of the user's and the
+  // workspace's rate limit; returns the error text when the request may not go ahead
+  async function checkLimits(
+    id: string,
+    teamId: string,
+    userId: string,
+    workspace: WorkspaceConfig
+  ): Promise<string | undefined> {
+    if ((await quotaState(teamId, workspace)) === "refuse") {
+      log("quota_exceeded", { id, teamId });
+      return "This workspace has used up its monthly AI budget. It resets on the 1st of next month.";
+    }
+    const decision = await rateLimiter.consume(teamId, userId, resolveRateLimits(workspace.rateLimits));
+    if (decision.allowed) {
+      return undefined;
+    }
+    log("rate_limited", { id, teamId, userId, scope: decision.scope, retryAfterMs: decision.retryAfterMs });
+    return describeRateLimit(decision);
+  }
+
+  // Styles rendered for every request, e.g. REWORD_STYLES=casual,formal,concise
+  function defaultStyleIds(): string[] {
+    const configured = resolveStyles(env.REWORD_STYLES?.split(",") ?? []);
+    return configured.length > 0 ? configured.map((s) => s.id) : DEFAULT_STYLE_IDS;
+  }
+
+  function selectStyles(requested: string[] | undefined, workspace: WorkspaceConfig): RewordStyle[] {
+    const styles = filterEnabledStyles(workspace, resolveStyles(requested ?? []));
+    if (styles.length > 0) {
+      return styles;
+    }
+    const defaults = filterEnabledStyles(workspace, resolveStyles(defaultStyleIds()));
+    return defaults.length > 0 ? defaults : filterEnabledStyles(workspace, listStyles()).slice(0, 1);
+  }
+
+  function findDisabledStyle(workspace: WorkspaceConfig, styleIds?: string[]): string | undefined {
+    return styleIds?.find((styleId) => !isStyleEnabled(workspace, styleId));
+  }
+
+  async function generateRewordedVersions(
+    selected: SelectedModel,
+    message: string,
+    styles: RewordStyle[],
+    options: RewordOptions,
+    workspace: WorkspaceConfig,
+    { sourceLanguage, previous, onProgress }: GenerateOptions = {}
+  ): Promise<GeneratedVersions> {
+    // Only prose is sent to the model; code, quotes and lists travel as placeholders
+    const masked = maskMrkdwn(message);
+    if (!hasProse(masked)) {
+      return { versions: Object.fromEntries(styles.map((style) => [style.id, message])), unavailable: [] };
+    }
+    const entities = extractEntities(masked.text);
+    const partial: RewordedVersions = Object.fromEntries(styles.map((style) => [style.id, ""]));
+
+    // Literals have to come back exactly as written, so only plain prose is shared through the cache.
+    // Regenerate always asks the model for a fresh take.
+    const cache = !previous && entities.length === 0 ? versionCache : undefined;
+    const systems = styles.map((style) => createStylePrompt(style, options, workspace, sourceLanguage));
+    const cacheKeys = styles.map((style, i) => ({
+      message,
+      styleId: style.id,
+      promptVersion: PROMPT_VERSION,
+      model: selected.name,
+      systemPrompt: systems[i],
+    }));
+    const cachedTexts = await Promise.all(cacheKeys.map((key) => cache?.get(key)));
+
+    // In combined mode the styles missing from the cache share one structured call;
+    // a style it gets wrong (or everything, if the call fails) falls back to its own call
+    const uncached = styles.filter((_, i) => cachedTexts[i] === undefined);
+    const combined =
+      generationMode === "combined" && !previous && uncached.length > 1
+        ? generateCombinedVersions(selected, masked.text, uncached, options, workspace, sourceLanguage).catch((err) => {
+            log("combined_failed", { error: String(err) });
+            return undefined;
+          })
+        : undefined;
+
+    // Generate all selected styles in parallel; regenerations sample hotter and avoid the previous text.
+    // A style that fails doesn't take the others down with it.
+    const results = await Promise.allSettled(
+      styles.map(async (style, i) => {
+        const system = systems[i];
+        const show = (text: string) => {
+          if (onProgress) {
+            partial[style.id] = restoreMrkdwn(text, masked);
+            onProgress({ ...partial });
+          }
+        };
+        const cached = cachedTexts[i];
+        if (cached !== undefined) {
+          log("cache_hit", { styleId: style.id, model: selected.name });
+          show(cached);
+          return cached;
+        }
+
+        const fromCombined = (await combined)?.[style.id];
+        if (fromCombined !== undefined) {
+          const repaired = repairEntities(fromCombined, entities);
+          const missing = findMissingEntities(entities, repaired);
+          if (missing.length === 0) {
+            show(repaired);
+            await cache?.set(cacheKeys[i], repaired);
+            return repaired;
+          }
+          log("combined_entities_missing", { styleId: style.id, missing: missing.map((e) => e.kind) });
+        }
+
+        const text = await generateCheckedVersion(
+          style.id,
+          entities,
+          async (retryNote, onText) => {
+            const prompt = previous?.[style.id]
+              ? createRegenerateUserPrompt(masked.text, applyMask(previous[style.id], masked))
+              : createRewordUserPrompt(masked.text);
+            return callWithFallback(
+              selected,
+              async (model, name) => {
+                const request = {
+                  model,
+                  system,
+                  prompt: retryNote ? `${prompt}\n\n${retryNote}` : prompt,
+                  timeout: MODEL_TIMEOUT_MS,
+                  ...(previous
+                    ? { temperature: REGENERATE_TEMPERATURE, seed: Math.floor(Math.random() * 2 ** 31) }
+                    : {}),
+                };
+                if (onText) {
+                  const stream = streamText(request);
+                  const text = await collectStream(stream.textStream, onText);
+                  selected.meter.add(name, await stream.usage);
+                  return text;
+                }
+                const result = await generateText(request);
+                selected.meter.add(name, result.usage);
+                return result.text;
+              },
+              { styleId: style.id }
+            );
+          },
+          onProgress && show
+        );
+        await cache?.set(cacheKeys[i], text);
+        return text;
+      })
+    );
+
+    const versions: RewordedVersions = {};
+    const unavailable: string[] = [];
+    results.forEach((result, i) => {
+      if (result.status === "fulfilled") {
+        versions[styles[i].id] = restoreMrkdwn(result.value, masked);
+      } else {
+        log("style_failed", { styleId: styles[i].id, error: String(result.reason) });
+        unavailable.push(styles[i].id);
+      }
+    });
+    if (Object.keys(versions).length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+    return { versions, unavailable };
+  }
+
+  // Asks for every style in one schema-validated object; resolves to the masked versions by style id
+  async function generateCombinedVersions(
+    selected: SelectedModel,
+    maskedMessage: string,
+    styles: RewordStyle[],
+    options: RewordOptions,
+    workspace: WorkspaceConfig,
+    sourceLanguage?: DetectedLanguage
+  ): Promise<RewordedVersions> {
+    const styleIds = styles.map((style) => style.id);
+    const combined = await callWithFallback(
+      selected,
+      async (model, name) => {
+        const result = await generateText({
+          model,
+          system: createCombinedStylePrompt(styles, options, workspace, sourceLanguage),
+          prompt: createRewordUserPrompt(maskedMessage),
+          output: Output.object({ schema: jsonSchema<CombinedVersions>(createCombinedSchema(styleIds)) }),
+          timeout: MODEL_TIMEOUT_MS,
+        });
+        selected.meter.add(name, result.usage);
+        return parseCombinedVersions(result.output, styleIds);
+      },
+      { styles: styleIds, combined: true }
+    );
+    log("combined_done", {
+      styles: styleIds,
+      detectedLanguage: combined.detectedLanguage,
+      changedPhrases: combined.changedPhrases?.length,
+    });
+    return combined.versions;
+  }
+
+  function oauthConfig(): OAuthConfig | undefined {
+    const clientId = env.SLACK_CLIENT_ID;
+    const clientSecret = env.SLACK_CLIENT_SECRET;
+    const redirectUri = env.SLACK_REDIRECT_URI;
+    if (!clientId || !clientSecret || !redirectUri) {
+      return undefined;
+    }
+    return {
+      clientId,
+      clientSecret,
+      redirectUri,
+      stateSecret: env.SLACK_STATE_SECRET || clientSecret,
+    };
+  }
+
+  // Bot token from the workspace's installation, or SLACK_BOT_TOKEN for single-workspace setups
+  async function resolveBotToken(teamId: string): Promise<string | undefined> {
+    return (await installationStore.getBotToken(teamId)) ?? env.SLACK_BOT_TOKEN;
+  }
+
+  // SLACK_USER_TOKEN posts as the user who owns it, so only that user may send with it
+  let userTokenOwner: Promise<string | undefined> | null = null;
+
+  async function resolveUserToken(teamId: string, userId: string): Promise<string | undefined> {
+    const installedToken = await installationStore.getUserToken(teamId, userId);
+    if (installedToken) {
+      return installedToken;
+    }
+
+    const token = env.SLACK_USER_TOKEN;
+    if (!token) {
+      return undefined;
+    }
+    userTokenOwner ??= getTokenUserId(token).catch((err) => {
+      log("token_check_error", { error: String(err) });
+      userTokenOwner = null;
+      return undefined;
+    });
+    return (await userTokenOwner) === userId ? token : undefined;
+  }
+
+  // Copy/Send values point at a stored version, or carry the text itself when there is no stored result
+  async function resolveVersionText(value: string): Promise<string | undefined> {
+    const ref = decodeVersionRef(value);
+    if (!ref) {
+      return value;
+    }
+    const result = await resultStore.get(ref.resultId);
+    return result?.versions[ref.styleId];
+  }
+
+  // Posts the chosen version to the originating channel/thread as the user, then removes the preview
+  async function sendVersion(id: string, payload: BlockActionsPayload, value: string): Promise<void> {
+    const responseUrl = payload.response_url;
+    const channel = payload.container?.channel_id ?? payload.channel?.id ?? "";
+    const threadTs = payload.container?.thread_ts;
+
+    log("send_start", { id, channel, inThread: !!threadTs });
+    try {
+      const text = await resolveVersionText(value);
+      if (!text) {
+        log("send_missing", { id });
+        await postToResponseUrl(responseUrl, {
+          ...createErrorResponse("This result has expired. Please run the command again."),
+          replace_original: false,
+        });
+        return;
+      }
+
+      const token = await resolveUserToken(payload.team?.id ?? "", payload.user?.id ?? "");
+      if (!token) {
+        log("send_no_token", { id });
+        const config = oauthConfig();
+        const connect = config
+          ? ` <${new URL("/api/slack/install", config.redirectUri)}|Connect your account> to send as yourself, or use 📋 Copy instead.`
+          : " Use 📋 Copy instead.";
+        await postToResponseUrl(responseUrl, {
+          ...createErrorResponse(`Sending isn't set up for your account.${connect}`),
+          replace_original: false,
+        });
+        return;
+      }
+
+      const result = await postMessage(token, { channel, text, thread_ts: threadTs });
+      if (!result.ok) {
+        log("send_err", { id, error: result.error });
+        await postToResponseUrl(responseUrl, {
+          ...createErrorResponse(`Couldn't send your message (${result.error}). Use 📋 Copy instead.`),
+          replace_original: false,
+        });
+        return;
+      }
+
+      await postToResponseUrl(responseUrl, { delete_original: true });
+      log("send_done", { id });
+    } catch (err) {
+      log("send_err", { id, error: String(err) });
+      await postToResponseUrl(responseUrl, {
+        ...createErrorResponse(`Error: ${err}`),
+        replace_original: false,
+      });
+    }
+  }
+
+  async function refineRewordedVersions(
+    selected: SelectedModel,
+    previous: ConversationState,
+    instruction: string,
+    workspace: WorkspaceConfig
+  ): Promise<GeneratedVersions> {
+    const styles = selectStyles(Object.keys(previous.versions), workspace);
+    const masked = maskMrkdwn(previous.original);
+    const entities = extractEntities(masked.text);
+    // A style that fails on both models keeps its previous text and is reported as unavailable
+    const results = await Promise.allSettled(
+      styles.map((style) =>
+        generateCheckedVersion(style.id, entities, async (retryNote) => {
+          const prompt = createRefineUserPrompt(
+            masked.text,
+            applyMask(previous.versions[style.id] ?? "", masked),
+            instruction
+          );
+          return callWithFallback(
+            selected,
+            async (model, name) => {
+              const result = await generateText({
+                model,
+                system: createStylePrompt(style, previous.options, workspace, detectLanguage(previous.original)),
+                prompt: retryNote ? `${prompt}\n\n${retryNote}` : prompt,
+                timeout: MODEL_TIMEOUT_MS,
+              });
+              selected.meter.add(name, result.usage);
+              return result.text;
+            },
+            { styleId: style.id }
+          );
+        })
+      )
+    );
+
+    const versions: RewordedVersions = {};
+    const unavailable: string[] = [];
+    results.forEach((result, i) => {
+      const styleId = styles[i].id;
+      if (result.status === "fulfilled") {
+        versions[styleId] = restoreMrkdwn(result.value, masked);
+      } else {
+        log("style_failed", { styleId, refine: true, error: String(result.reason) });
+        versions[styleId] = previous.versions[styleId] ?? "";
+        unavailable.push(styleId);
+      }
+    });
+    if (unavailable.length === styles.length) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+    return { versions, unavailable };
+  }
+
+  // Streams partial versions into the ephemeral response, throttled to stay within response_url's limits
+  function createResponseUrlProgress(responseUrl: string, original: string, options: RewordOptions) {
+    return createThrottledUpdater<RewordedVersions>(
+      (partial) =>
+        postToResponseUrl(responseUrl, {
+          ...createDualVersionResponse(original, partial, {
+            streaming: true,
+            hint: ":hourglass_flowing_sand: Still writing...",
+            ...languageLabels(original, options),
+          }),
+          replace_original: true,
+        }),
+      { intervalMs: STREAM_UPDATE_INTERVAL_MS, maxUpdates: STREAM_MAX_UPDATES }
+    );
+  }
+
+  // Picks model and styles for a message and generates every version
+  async function rewordMessage(
+    id: string,
+    requester: Requester,
+    message: string,
+    options: RewordOptions,
+    workspace: WorkspaceConfig,
+    { previous, onProgress }: Omit<GenerateOptions, "sourceLanguage"> = {}
+  ): Promise<GeneratedVersions & { model: string }> {
+    const selected = await selectModel(id, requester, workspace, "reword", message.length);
+    const styles = selectStyles(options.styles, workspace);
+    const language = detectLanguage(message);
+    log("ai_call", {
+      id,
+      model: selected.name,
+      msgLen: message.length,
+      styles: styles.map((s) => s.id),
+      language: language?.code,
+      regenerate: !!previous,
+      mode: generationMode,
+    });
+    const t0 = Date.now();
+
+    try {
+      const { versions, unavailable } = await generateRewordedVersions(selected, message, styles, options, workspace, {
+        sourceLanguage: language,
+        previous,
+        onProgress,
+      });
+      log("ai_done", { id, ms: Date.now() - t0, unavailable, mode: generationMode });
+      return { versions, unavailable, model: selected.name };
+    } finally {
+      // Failed calls are billed too
+      await recordUsage(id, requester, selected);
+    }
+  }
+
+  async function checkTone(id: string, requester: Requester, message: string): Promise<ToneCheckResult> {
+    const workspace = await workspaceStore.get(requester.teamId);
+    const selected = await selectModel(id, requester, workspace, "tone_check", message.length);
+    log("ai_call", { id, model: selected.name, msgLen: message.length, toneCheck: true });
+    const t0 = Date.now();
+
+    try {
+      const { output } = await callWithFallback(
+        selected,
+        async (model, name) => {
+          const result = await generateText({
+            model,
+            system: TONE_CHECK_SYSTEM_PROMPT,
+            prompt: createToneCheckUserPrompt(message),
+            output: Output.object({ schema: jsonSchema<ToneCheckResult>(TONE_CHECK_SCHEMA) }),
+            timeout: MODEL_TIMEOUT_MS,
+          });
+          selected.meter.add(name, result.usage);
+          return result;
+        },
+        { id }
+      );
+      log("ai_done", { id, ms: Date.now() - t0 });
+      return normalizeToneCheck(output, message);
+    } finally {
+      await recordUsage(id, requester, selected);
+    }
+  }
+
+  // Runs a tone check in the background and posts the scorecard to response_url
+  async function runToneCheck(id: string, requester: Requester, message: string, responseUrl: string): Promise<void> {
+    log("tone_bg_start", { id });
+    try {
+      const result = await checkTone(id, requester, message);
+      await postToResponseUrl(responseUrl, createToneCheckResponse(message, result));
+      log("tone_bg_done", { id, harshness: result.harshness });
+    } catch (err) {
+      log("tone_bg_err", { id, error: String(err) });
+      await postToResponseUrl(responseUrl, createErrorResponse(`Error: ${err}`));
+    }
+  }
+
+  async function saveResult(
+    teamId: string,
+    userId: string,
+    original: string,
+    versions: RewordedVersions,
+    options: RewordOptions,
+    model: string,
+    unavailable: string[] = [],
+    showSend = true
+  ): Promise<RewordResult> {
+    const result: RewordResult = {
+      id: createResultId(),
+      teamId,
+      userId,
+      original,
+      versions,
+      unavailable,
+      ...(showSend ? {} : { showSend }),
+      options,
+      model,
+      promptVersion: PROMPT_VERSION,
+      attempt: 0,
+      createdAt: new Date().toISOString(),
+    };
+    await resultStore.save(result);
+    return result;
+  }
+
+  // Regenerates one style (or all of them) of a stored result and replaces the original message
+  async function regenerateResult(id: string, payload: BlockActionsPayload, actionId: string, resultId: string): Promise<void> {
+    const responseUrl = payload.response_url;
+    const styleId = actionId.slice("regenerate_".length);
+
+    log("regenerate_start", { id, styleId });
+    try {
+      const result = await resultStore.get(resultId);
+      if (!result) {
+        log("regenerate_missing", { id });
+        await postToResponseUrl(responseUrl, {
+          ...createErrorResponse("This result has expired. Please run the command again."),
+          replace_original: false,
+        });
+        return;
+      }
+
+      const workspace = await workspaceStore.get(result.teamId);
+      const previouslyUnavailable = result.unavailable ?? [];
+      const styles =
+        styleId === "all" ? [...Object.keys(result.versions), ...previouslyUnavailable] : [styleId];
+      const { versions: regenerated, unavailable, model } = await rewordMessage(
+        id,
+        { teamId: result.teamId, userId: payload.user?.id ?? result.userId },
+        result.original,
+        { ...result.options, styles },
+        workspace,
+        { previous: result.versions }
+      );
+
+      const updated: RewordResult = {
+        ...result,
+        versions: { ...result.versions, ...regenerated },
+        // Notes on the replaced text no longer apply
+        explanations: omitKeys(result.explanations ?? {}, Object.keys(regenerated)),
+        showExplanations: (result.showExplanations ?? []).filter((s) => !(s in regenerated)),
+        // A style that failed again stays retryable; one that came back drops off the list
+        unavailable: [
+          ...previouslyUnavailable.filter((s) => !(s in regenerated) && !unavailable.includes(s)),
+          ...unavailable.filter((s) => !(s in result.versions)),
+        ],
+        model,
+        promptVersion: PROMPT_VERSION,
+        attempt: result.attempt + 1,
+      };
+      await resultStore.save(updated);
+
+      // Keep a DM draft in sync so follow-up refinements build on the regenerated text
+      const channel = payload.channel?.id;
+      const draft = channel ? await conversationStore.get(result.teamId, channel) : undefined;
+      if (channel && draft?.original === updated.original) {
+        await conversationStore.set(result.teamId, channel, {
+          ...draft,
+          versions: updated.versions,
+          updatedAt: new Date().toISOString(),
+        });
+      }
+
+      await postToResponseUrl(responseUrl, {
+        ...createDualVersionResponse(updated.original, updated.versions, resultDisplayOptions(updated)),
+        replace_original: true,
+      });
+      log("regenerate_done", { id, attempt: updated.attempt });
+    } catch (err) {
+      log("regenerate_err", { id, error: String(err) });
+      await postToResponseUrl(responseUrl, {
+        ...createErrorResponse(`Error: ${err}`),
+        replace_original: false,
+      });
+    }
+  }
+
+  // Re-renders a stored result with the toggles the user left open
+  function resultDisplayOptions(result: RewordResult): VersionResponseOptions {
+    const explanations = result.explanations ?? {};
+    return {
+      resultId: result.id,
+      showSend: result.showSend,
+      unavailable: result.unavailable,
+      showChanges: result.showChanges,
+      explanations: Object.fromEntries(
+        (result.showExplanations ?? []).filter((s) => s in explanations).map((s) => [s, explanations[s]])
+      ),
+      ...languageLabels(result.original, result.options),
+    };
+  }
+
+  // Flips one version between its plain text and a word diff against the original
+  async function toggleChanges(id: string, payload: BlockActionsPayload, actionId: string, resultId: string): Promise<void> {
+    const responseUrl = payload.response_url;
+    const styleId = actionId.slice("changes_".length);
+
+    try {
+      const result = await resultStore.get(resultId);
+      if (!result) {
+        log("changes_missing", { id });
+        await postToResponseUrl(responseUrl, {
+          ...createErrorResponse("This result has expired. Please run the command again."),
+          replace_original: false,
+        });
+        return;
+      }
+
+      const updated = { ...result, showChanges: toggleStyle(result.showChanges ?? [], styleId) };
+      await resultStore.save(updated);
+      log("changes_toggle", { id, styleId, shown: updated.showChanges.includes(styleId) });
+
+      await postToResponseUrl(responseUrl, {
+        ...createDualVersionResponse(updated.original, updated.versions, resultDisplayOptions(updated)),
+        replace_original: true,
+      });
+    } catch (err) {
+      log("changes_err", { id, error: String(err) });
+    }
+  }
+
+  async function explainChanges(
+    id: string,
+    requester: Requester,
+    original: string,
+    reworded: string,
+    styleId: string
+  ): Promise<PhraseExplanation[]> {
+    const workspace = await workspaceStore.get(requester.teamId);
+    const selected = await selectModel(id, requester, workspace, "explain", original.length);
+    const label = resolveStyles([styleId])[0]?.label ?? styleId;
+    log("ai_call", { id, model: selected.name, msgLen: original.length, explain: styleId });
+    const t0 = Date.now();
+
+    try {
+      const { output } = await callWithFallback(
+        selected,
+        async (model, name) => {
+          const result = await generateText({
+            model,
+            system: EXPLAIN_SYSTEM_PROMPT,
+            prompt: createExplainUserPrompt(original, reworded, label),
+            output: Output.object({ schema: jsonSchema<{ changes: PhraseExplanation[] }>(EXPLANATION_SCHEMA) }),
+            timeout: MODEL_TIMEOUT_MS,
+          });
+          selected.meter.add(name, result.usage);
+          return result;
+        },
+        { id }
+      );
+      log("ai_done", { id, ms: Date.now() - t0 });
+      return normalizeExplanations(output, original);
+    } finally {
+      await recordUsage(id, requester, selected);
+    }
+  }
+
+  // Expands or collapses a version's "Why these changes?" section, generating the notes on first use
+  async function toggleExplanation(id: string, payload: BlockActionsPayload, actionId: string, resultId: string): Promise<void> {
+    const responseUrl = payload.response_url;
+    const styleId = actionId.slice("explain_".length);
+
+    try {
+      const result = await resultStore.get(resultId);
+      const reworded = result?.versions[styleId];
+      if (!result || reworded === undefined) {
+        log("explain_missing", { id });
+        await postToResponseUrl(responseUrl, {
+          ...createErrorResponse("This result has expired. Please run the command again."),
+          replace_original: false,
+        });
+        return;
+      }
+
+      let explanations = result.explanations ?? {};
+      const expanding = !(result.showExplanations ?? []).includes(styleId);
+      if (expanding && !explanations[styleId]) {
+        const userId = payload.user?.id ?? result.userId;
+        const limited = await checkLimits(id, result.teamId, userId, await workspaceStore.get(result.teamId));
+        if (limited) {
+          await postToResponseUrl(responseUrl, { ...createErrorResponse(limited), replace_original: false });
+          return;
+        }
+        const changes = await explainChanges(id, { teamId: result.teamId, userId }, result.original, reworded, styleId);
+        explanations = { ...explanations, [styleId]: changes };
+        log("explain_done", { id, styleId, changes: changes.length });
+      }
+
+      const updated: RewordResult = {
+        ...result,
+        explanations,
+        showExplanations: toggleStyle(result.showExplanations ?? [], styleId),
+      };
+      await resultStore.save(updated);
+
+      await postToResponseUrl(responseUrl, {
+        ...createDualVersionResponse(updated.original, updated.versions, resultDisplayOptions(updated)),
+        replace_original: true,
+      });
+    } catch (err) {
+      log("explain_err", { id, error: String(err) });
+      await postToResponseUrl(responseUrl, {
+        ...createErrorResponse(`Error: ${err}`),
+        replace_original: false,
+      });
+    }
+  }
+
+  // Rewords the quoted text, or else the thread's parent message, and replies in the thread
+  async function handleMention(id: string, teamId: string, botUserId: string | undefined, event: AppMentionEvent): Promise<void> {
+    const threadTs = event.thread_ts ?? event.ts;
+
+    log("mention_start", { id, channel: event.channel, inThread: isThreadReply(event) });
+    let token: string | undefined;
+    try {
+      token = await resolveBotToken(teamId);
+      if (!token) {
+        log("mention_no_token", { id, teamId });
+        return;
+      }
+
+      let message = extractQuotedText(stripBotMention(event.text, botUserId));
+      if (!message && isThreadReply(event)) {
+        const parent = await fetchThreadParent(token, event.channel, threadTs);
+        message = parent?.text;
+      }
+
+      if (!message) {
+        await postMessage(token, {
+          channel: event.channel,
+          thread_ts: threadTs,
+          text: "Mention me in a thread to reword its first message, or quote the text to reword, e.g. `@Reword > need this asap`.",
+        });
+        log("mention_no_message", { id });
+        return;
+      }
+
+      const options = await preferencesStore.get(teamId, event.user);
+      const workspace = await workspaceStore.get(teamId);
+      const limited = await checkLimits(id, teamId, event.user, workspace);
+      if (limited) {
+        await postMessage(token, { channel: event.channel, thread_ts: threadTs, text: `:warning: ${limited}` });
+        return;
+      }
+      const { versions, unavailable, model } = await rewordMessage(id, { teamId, userId: event.user }, message, options, workspace);
+      const saved = await saveResult(teamId, event.user, message, versions, options, model, unavailable, false);
+
+      // The reply is visible to the whole channel, so Send (which replaces the message) is hidden
+      const result = await postMessage(token, {
+        channel: event.channel,
+        thread_ts: threadTs,
+        text: `Reworded versions of: ${message}`,
+        blocks: createDualVersionResponse(message, versions, {
+          showSend: false,
+          resultId: saved.id,
+          unavailable,
+          ...languageLabels(message, options),
+        }).blocks,
+      });
+      log("mention_done", { id, ok: result.ok, error: result.error });
+    } catch (err) {
+      log("mention_err", { id, error: String(err) });
+      if (!token) return;
+      try {
+        await postMessage(token, { channel: event.channel, thread_ts: threadTs, text: `:warning: Error: ${err}` });
+      } catch (postErr) {
+        log("mention_err_post", { id, error: String(postErr) });
+      }
+    }
+  }
+
+  // DM assistant: new drafts are reworded, short follow-ups refine the previous result
+  async function handleDirectMessage(id: string, teamId: string, event: DirectMessageEvent): Promise<void> {
+    const channel = event.channel;
+
+    log("dm_start", { id, channel });
+    let token: string | undefined;
+    try {
+      token = await resolveBotToken(teamId);
+      if (!token) {
+        log("dm_no_token", { id, teamId });
+        return;
+      }
+
+      const previous = await conversationStore.get(teamId, channel);
+      const intent = classifyDirectMessage(event.text ?? "", !!previous);
+      log("dm_intent", { id, type: intent.type });
+
+      if (intent.type === "help") {
+        await postMessage(token, { channel, text: DM_HELP });
+        return;
+      }
+      if (intent.type === "reset") {
+        await conversationStore.clear(teamId, channel);
+        await postMessage(token, { channel, text: "Starting fresh - send me a new draft." });
+        return;
+      }
+
+      const workspace = await workspaceStore.get(teamId);
+      const limited = await checkLimits(id, teamId, event.user, workspace);
+      if (limited) {
+        await postMessage(token, { channel, text: `:warning: ${limited}` });
+        return;
+      }
+      let state: ConversationState;
+      let model: string;
+      let unavailable: string[] = [];
+      if (intent.type === "refine") {
+        // Refinements are only classified when there is a previous result
+        const base = previous!;
+        const requester = { teamId, userId: event.user };
+        const selected = await selectModel(id, requester, workspace, "refine", base.original.length);
+        model = selected.name;
+        log("ai_call", { id, model, refine: true });
+        const t0 = Date.now();
+        let refined: GeneratedVersions;
+        try {
+          refined = await refineRewordedVersions(selected, base, intent.instruction, workspace);
+        } finally {
+          await recordUsage(id, requester, selected);
+        }
+        log("ai_done", { id, ms: Date.now() - t0 });
+        unavailable = refined.unavailable;
+        state = { ...base, versions: refined.versions, updatedAt: new Date().toISOString() };
+      } else {
+        const options = await preferencesStore.get(teamId, event.user);
+        const reworded = await rewordMessage(id, { teamId, userId: event.user }, intent.message, options, workspace);
+        model = reworded.model;
+        unavailable = reworded.unavailable;
+        state = {
+          original: intent.message,
+          versions: reworded.versions,
+          options,
+          updatedAt: new Date().toISOString(),
+        };
+      }
+
+      await conversationStore.set(teamId, channel, state);
+      // A style whose refinement failed keeps its previous text in the draft, but is shown with Retry
+      const shown = omitKeys(state.versions, unavailable);
+      const saved = await saveResult(
+        teamId,
+        event.user,
+        state.original,
+        shown,
+        state.options,
+        model,
+        unavailable,
+        false
+      );
+      const result = await postMessage(token, {
+        channel,
+        text: `Reworded versions of: ${state.original}`,
+        blocks: createDualVersionResponse(state.original, shown, {
+          ...languageLabels(state.original, state.options),
+          showSend: false,
+          hint: DM_HINT,
+          resultId: saved.id,
+          unavailable,
+        }).blocks,
+      });
+      log("dm_done", { id, ok: result.ok, error: result.error });
+    } catch (err) {
+      log("dm_err", { id, error: String(err) });
+      if (!token) return;
+      try {
+        await postMessage(token, { channel, text: `:warning: Error: ${err}` });
+      } catch (postErr) {
+        log("dm_err_post", { id, error: String(postErr) });
+      }
+    }
+  }
+
+  // Opens the modal editor and fills in the first version in the background
+  async function openRewordModal(
+    id: string,
+    payload: ShortcutPayload,
+    messageText: string,
+    options: RewordOptions,
+    workspace: WorkspaceConfig,
+    context?: RequestContext
+  ): Promise<boolean> {
+    const teamId = payload.team?.id ?? "";
+    const token = await resolveBotToken(teamId);
+    if (!token || !payload.trigger_id) {
+      return false;
+    }
+
+    const state: RewordModalState = {
+      original: messageText,
+      styleId: selectStyles(options.styles, workspace)[0]?.id ?? "",
+      styles: filterEnabledStyles(workspace, listStyles()),
+      metadata: {
+        teamId,
+        channel: payload.channel?.id ?? "",
+        threadTs: payload.message?.thread_ts,
+        revision: 1,
+      },
+    };
+
+    const opened = await openView(token, payload.trigger_id, createRewordModal(state));
+    if (!opened.ok) {
+      log("modal_open_err", { id, error: opened.error });
+      return false;
+    }
+
+    const view = opened.view as { id: string; hash: string };
+    log("modal_opened", { id, viewId: view.id });
+    defer(context, generateIntoModal(id, token, view.id, view.hash, state, payload.user?.id ?? ""));
+    return true;
+  }
+
+  // Regenerates the preview after the user picked another style or clicked Regenerate
+  async function regenerateModal(id: string, payload: BlockActionsPayload): Promise<void> {
+    const view = payload.view;
+    if (!view) {
+      return;
+    }
+    const metadata: RewordModalMetadata = JSON.parse(view.private_metadata);
+    const values = readRewordModalValues(view);
+
+    const token = await resolveBotToken(metadata.teamId);
+    if (!token) {
+      log("modal_no_token", { id, teamId: metadata.teamId });
+      return;
+    }
+
+    const workspace = await workspaceStore.get(metadata.teamId);
+    const state: RewordModalState = {
+      original: values.original.trim(),
+      styleId: values.styleId,
+      styles: filterEnabledStyles(workspace, listStyles()),
+      metadata: { ...metadata, revision: metadata.revision + 1 },
+    };
+    if (!state.original) {
+      await updateView(token, view.id, createRewordModal({ ...state, error: "Please enter a message to reword." }));
+      return;
+    }
+    const limited = await checkLimits(id, metadata.teamId, payload.user?.id ?? "", workspace);
+    if (limited) {
+      await updateView(token, view.id, createRewordModal({ ...state, error: limited }));
+      return;
+    }
+
+    const pending = await updateView(token, view.id, createRewordModal(state), view.hash);
+    if (!pending.ok) {
+      log("modal_update_skipped", { id, error: pending.error });
+      return;
+    }
+    await generateIntoModal(id, token, view.id, (pending.view as { hash: string }).hash, state, payload.user?.id ?? "");
+  }
+
+  async function generateIntoModal(
+    id: string,
+    token: string,
+    viewId: string,
+    hash: string,
+    state: RewordModalState,
+    userId: string
+  ): Promise<void> {
+    try {
+      const options = await preferencesStore.get(state.metadata.teamId, userId);
+      const workspace = await workspaceStore.get(state.metadata.teamId);
+      const { versions } = await rewordMessage(
+        id,
+        { teamId: state.metadata.teamId, userId },
+        state.original,
+        { ...options, styles: [state.styleId] },
+        workspace
+      );
+      const preview = versions[state.styleId] ?? Object.values(versions)[0];
+
+      // A hash_conflict means the user changed the modal meanwhile; their newer request wins
+      const result = await updateView(token, viewId, createRewordModal({ ...state, preview }), hash);
+      log("modal_done", { id, ok: result.ok, error: result.error });
+    } catch (err) {
+      log("modal_err", { id, error: String(err) });
+      await updateView(token, viewId, createRewordModal({ ...state, error: `Error: ${err}` }), hash);
+    }
+  }
+
+  // Send from the modal: post the (possibly edited) preview as the user and close the modal
+  async function submitRewordModal(id: string, payload: ViewSubmissionPayload): Promise<object> {
+    const metadata: RewordModalMetadata = JSON.parse(payload.view.private_metadata);
+    const values = readRewordModalValues(payload.view);
+    const previewBlockId = `preview_${metadata.revision}`;
+    const fail = (message: string) => ({ response_action: "errors", errors: { [previewBlockId]: message } });
+
+    if (!values.preview.trim()) {
+      return fail("There's nothing to send yet.");
+    }
+
+    const token = await resolveUserToken(metadata.teamId, payload.user?.id ?? "");
+    if (!token) {
+      log("modal_send_no_token", { id });
+      return fail("Sending isn't set up for your account - copy the text above instead.");
+    }
+
+    const result = await postMessage(token, {
+      channel: metadata.channel,
+      text: values.preview,
+      thread_ts: metadata.threadTs,
+    });
+    if (!result.ok) {
+      log("modal_send_err", { id, error: result.error });
+      return fail(`Couldn't send your message (${result.error}).`);
+    }
+
+    log("modal_sent", { id });
+    return { response_action: "clear" };
+  }
+
+  // Records a 👍/👎 on one version; a 👎 also asks for an optional comment
+  async function recordFeedback(id: string, payload: BlockActionsPayload, rating: FeedbackRating, value: string): Promise<void> {
+    const responseUrl = payload.response_url;
+    const userId: string = payload.user?.id ?? "";
+
+    const target = decodeFeedbackValue(value);
+    const result = target ? await resultStore.get(target.resultId) : undefined;
+    if (!target || !result) {
+      log("feedback_missing", { id });
+      await postToResponseUrl(responseUrl, {
+        ...createErrorResponse("This result has expired, so the feedback could not be saved."),
+        replace_original: false,
+      });
+      return;
+    }
+
+    try {
+      // trigger_id expires after 3 seconds, so open the comment modal before anything slower
+      let askedForComment = false;
+      if (rating === "down") {
+        const token = await resolveBotToken(result.teamId);
+        if (token) {
+          const metadata = JSON.stringify({ resultId: result.id, styleId: target.styleId });
+          const opened = await openView(token, payload.trigger_id, createFeedbackModal(metadata));
+          askedForComment = opened.ok;
+          if (!opened.ok) {
+            log("feedback_modal_err", { id, error: opened.error });
+          }
+        }
+      }
+
+      await feedbackStore.record({
+        resultId: result.id,
+        teamId: result.teamId,
+        userId,
+        styleId: target.styleId,
+        model: result.model,
+        promptVersion: result.promptVersion,
+        messageHash: await hashMessage(result.original),
+        rating,
+        createdAt: new Date().toISOString(),
+      });
+      log("feedback", { id, styleId: target.styleId, rating, model: result.model });
+
+      if (!askedForComment) {
+        await postToResponseUrl(responseUrl, {
+          response_type: "ephemeral",
+          replace_original: false,
+          text: "Thanks for the feedback!",
+        });
+      }
+    } catch (err) {
+      log("feedback_err", { id, error: String(err) });
+    }
+  }
+
+  async function submitFeedbackComment(id: string, payload: ViewSubmissionPayload): Promise<object> {
+    const { resultId, styleId } = JSON.parse(payload.view.private_metadata || "{}");
+    const comment = readFeedbackComment(payload.view);
+    const existing = await feedbackStore.get(resultId, styleId, payload.user?.id ?? "");
+    if (existing && comment) {
+      await feedbackStore.record({ ...existing, comment });
+      log("feedback_comment", { id, styleId, len: comment.length });
+    }
+    return { response_action: "clear" };
+  }
+
+  // Button clicks and modal submissions, whichever endpoint Slack delivers them to
+  async function handleInteraction(id: string, payload: SlackInteractionPayload, context?: RequestContext): Promise<object> {
+    if (payload.type === "view_submission" && payload.view?.callback_id === REWORD_MODAL_CALLBACK_ID) {
+      return submitRewordModal(id, payload);
+    }
+    if (payload.type === "view_submission" && payload.view?.callback_id === FEEDBACK_MODAL_CALLBACK_ID) {
+      return submitFeedbackComment(id, payload);
+    }
+
+    if (payload.type === "block_actions") {
+      const action = payload.actions?.[0];
+      const value = action?.value ?? "";
+      if (payload.view?.callback_id === REWORD_MODAL_CALLBACK_ID) {
+        if (action?.action_id === "modal_regenerate" || action?.action_id === "style_select") {
+          defer(context, regenerateModal(id, payload));
+        }
+        return { ok: true };
+      }
+      if (action?.action_id?.startsWith("send_")) {
+        defer(context, sendVersion(id, payload, value));
+        return { ok: true };
+      }
+      if (action?.action_id?.startsWith("regenerate_")) {
+        const teamId = payload.team?.id ?? "";
+        const limited = await checkLimits(id, teamId, payload.user?.id ?? "", await workspaceStore.get(teamId));
+        if (limited) {
+          void postToResponseUrl(payload.response_url, { ...createErrorResponse(limited), replace_original: false });
+          return { ok: true };
+        }
+        defer(context, regenerateResult(id, payload, action.action_id, value));
+        return { ok: true };
+      }
+      if (action?.action_id?.startsWith("changes_")) {
+        defer(context, toggleChanges(id, payload, action.action_id, value));
+        return { ok: true };
+      }
+      if (action?.action_id?.startsWith("explain_")) {
+        defer(context, toggleExplanation(id, payload, action.action_id, value));
+        return { ok: true };
+      }
+      if (action?.action_id?.startsWith("feedback_")) {
+        const rating: FeedbackRating = action.action_id.startsWith("feedback_up_") ? "up" : "down";
+        defer(context, recordFeedback(id, payload, rating, value));
+        return { ok: true };
+      }
+      if (action?.action_id?.startsWith("copy_")) {
+        const textToCopy = await resolveVersionText(value);
+        if (!textToCopy) {
+          return { ...createErrorResponse("This result has expired. Please run the command again."), replace_original: false };
+        }
+        return {
+          response_type: "ephemeral",
+          replace_original: false,
+          text: `📋 *Ready to copy:*\n\n\`\`\`${textToCopy}\`\`\`\n\n_Select and copy the text above._`,
+        };
+      }
+    }
+
+    return { ok: true };
+  }
+
+  // Checks the method and Slack signature; resolves to the raw body, or to the error response to send
+  async function readSlackRequest(id: string, req: Request): Promise<string | Response> {
+    if (req.method !== "POST") {
+      return json({ error: "Method not allowed" }, 405);
+    }
+
+    const signingSecret = env.SLACK_SIGNING_SECRET;
+    if (!signingSecret) {
+      log("no_secret", { id });
+      return json({ error: "Server configuration error" }, 500);
+    }
+
+    const rawBody = await req.text();
+    const signature = req.headers.get("x-slack-signature");
+    const timestamp = req.headers.get("x-slack-request-timestamp");
+
+    if (!(await verifySlackRequest(signingSecret, signature, timestamp, rawBody))) {
+      log("bad_sig", { id });
+      return json({ error: "Invalid request signature" }, 401);
+    }
+    return rawBody;
+  }
+
+  // Slack reword command
+  async function reword(req: Request, context?: RequestContext): Promise<Response> {
+    const id = crypto.randomUUID().slice(0, 8);
+    log("req", { id });
+
+    const rawBody = await readSlackRequest(id, req);
+    if (rawBody instanceof Response) {
+      return rawBody;
+    }
+
+    const payload = parseSlashCommandPayload(rawBody);
+    log("parsed", { id, text: payload.text?.slice(0, 30), hasUrl: !!payload.response_url });
+
+    const command = parseRewordCommand(payload.text);
+    const workspace = await workspaceStore.get(payload.team_id);
+    log("command", { id, type: command.type });
+
+    switch (command.type) {
+      case "help":
+        return json(
+          createHelpResponse(
+            payload.command || undefined,
+            payload.text.trim() === "" ? "Please provide a message to reword." : undefined
+          )
+        );
+      case "styles":
+        return json(createStylesResponse(filterEnabledStyles(workspace, listStyles()), defaultStyleIds()));
+      case "settings": {
+        const current = await preferencesStore.get(payload.team_id, payload.user_id);
+        const update = applySettingsArgs(current, command.args);
+        if (update.type === "invalid") {
+          return json(createErrorResponse(update.error));
+        }
+        if (update.type === "show") {
+          return json(createSettingsResponse(selectStyles(current.styles, workspace), current));
+        }
+        const disabledStyle = findDisabledStyle(workspace, update.preferences.styles);
+        if (disabledStyle) {
+          return json(createErrorResponse(`The \`${disabledStyle}\` style is disabled in this workspace.`));
+        }
+        await preferencesStore.set(payload.team_id, payload.user_id, update.preferences);
+        log("settings_saved", { id, keys: Object.keys(update.preferences) });
+        return json(
+          createSettingsResponse(
+            selectStyles(update.preferences.styles, workspace),
+            update.preferences,
+            ":white_check_mark: Settings saved."
+          )
+        );
+      }
+      case "usage": {
+        const month = usageMonth();
+        const records = await usageStore.list(month, payload.team_id);
+        const mine = records.filter((r) => r.userId === payload.user_id);
+        return json(createUsageResponse(month, summarizeUsage(mine), summarizeUsage(records), workspace.quota));
+      }
+      case "invalid":
+        return json(createErrorResponse(command.error));
+    }
+
+    const disabledStyle = findDisabledStyle(workspace, command.options.styles);
+    if (disabledStyle) {
+      return json(createErrorResponse(`The \`${disabledStyle}\` style is disabled in this workspace.`));
+    }
+
+    const limited = await checkLimits(id, payload.team_id, payload.user_id, workspace);
+    if (limited) {
+      return json(createErrorResponse(limited));
+    }
+
+    const originalMessage = command.message;
+    const preferences = await preferencesStore.get(payload.team_id, payload.user_id);
+    const options = mergeOptions(preferences, command.options);
+    const responseUrl = payload.response_url;
+
+    // Process in background
+    defer(
+      context,
+      (async () => {
+        log("bg_start", { id });
+        const progress = createResponseUrlProgress(responseUrl, originalMessage, options);
+        try {
+          const requester = { teamId: payload.team_id, userId: payload.user_id };
+          const { versions, unavailable, model } = await rewordMessage(id, requester, originalMessage, options, workspace, {
+            onProgress: progress.update,
+          });
+          await progress.stop();
+          const result = await saveResult(
+            payload.team_id,
+            payload.user_id,
+            originalMessage,
+            versions,
+            options,
+            model,
+            unavailable
+          );
+          await postToResponseUrl(responseUrl, {
+            ...createDualVersionResponse(originalMessage, versions, resultDisplayOptions(result)),
+            replace_original: true,
+          });
+          log("bg_done", { id, progressUpdates: progress.sent() });
+        } catch (err) {
+          log("bg_err", { id, error: String(err) });
+          await progress.stop();
+          await postToResponseUrl(responseUrl, { ...createErrorResponse(`Error: ${err}`), replace_original: true });
+        }
+      })()
+    );
+
+    log("ack", { id });
+    return json({
+      response_type: "ephemeral",
+      text: ":hourglass_flowing_sand: Rewording your message...",
+    });
+  }
+
+  // Tone check slash command: scores a draft without rewriting it
+  async function toneCheck(req: Request, context?: RequestContext): Promise<Response> {
+    const id = crypto.randomUUID().slice(0, 8);
+    log("tone_req", { id });
+
+    const rawBody = await readSlackRequest(id, req);
+    if (rawBody instanceof Response) {
+      return rawBody;
+    }
+
+    const payload = parseSlashCommandPayload(rawBody);
+    const message = payload.text.trim();
+    if (!message || message.toLowerCase() === "help") {
+      const command = payload.command || "/tone-check";
+      return json({
+        response_type: "ephemeral",
+        text: `Usage: \`${command} <your draft>\` - scores how your message will land (harshness, clarity, urgency) without rewriting it.`,
+      });
+    }
+
+    const limited = await checkLimits(id, payload.team_id, payload.user_id, await workspaceStore.get(payload.team_id));
+    if (limited) {
+      return json(createErrorResponse(limited));
+    }
+
+    defer(context, runToneCheck(id, { teamId: payload.team_id, userId: payload.user_id }, message, payload.response_url));
+
+    log("ack", { id });
+    return json({
+      response_type: "ephemeral",
+      text: ":hourglass_flowing_sand: Checking the tone...",
+    });
+  }
+
+  // Slack message shortcut handler
+  async function shortcut(req: Request, context?: RequestContext): Promise<Response> {
+    const id = crypto.randomUUID().slice(0, 8);
+    log("shortcut_req", { id });
+
+    const rawBody = await readSlackRequest(id, req);
+    if (rawBody instanceof Response) {
+      return rawBody;
+    }
+
+    // Parse the payload (it's URL encoded with a 'payload' field containing JSON)
+    const params = new URLSearchParams(rawBody);
+    const payloadStr = params.get("payload");
+    if (!payloadStr) {
+      log("no_payload", { id });
+      return json({ error: "Missing payload" }, 400);
+    }
+
+    const payload: SlackInteractionPayload = JSON.parse(payloadStr);
+    log("shortcut_parsed", { id, type: payload.type, callbackId: "callback_id" in payload ? payload.callback_id : undefined });
+
+    // Handle message shortcut
+    if (payload.type === "message_action" || payload.type === "shortcut") {
+      const messageText = payload.message?.text || payload.text || "";
+      const responseUrl = payload.response_url;
+
+      if (!messageText) {
+        return json({
+          response_type: "ephemeral",
+          text: ":warning: Could not extract message text.",
+        });
+      }
+
+      const teamId = payload.team?.id ?? "";
+      const workspace = await workspaceStore.get(teamId);
+      const limited = await checkLimits(id, teamId, payload.user?.id ?? "", workspace);
+      if (limited) {
+        return json(createErrorResponse(limited));
+      }
+
+      if (payload.callback_id === TONE_CHECK_SHORTCUT_ID) {
+        defer(context, runToneCheck(id, { teamId, userId: payload.user?.id ?? "" }, messageText, responseUrl));
+        return json({
+          response_type: "ephemeral",
+          text: ":hourglass_flowing_sand: Checking the tone...",
+        });
+      }
+
+      const options = await preferencesStore.get(teamId, payload.user?.id ?? "");
+
+      // Prefer the modal editor; without a bot token fall back to an ephemeral response
+      if (await openRewordModal(id, payload, messageText, options, workspace, context)) {
+        return json({ ok: true });
+      }
+
+      // Process in background
+      defer(
+        context,
+        (async () => {
+          log("shortcut_bg_start", { id });
+          const progress = createResponseUrlProgress(responseUrl, messageText, options);
+          try {
+            const userId = payload.user?.id ?? "";
+            const requester = { teamId, userId };
+            const { versions, unavailable, model } = await rewordMessage(id, requester, messageText, options, workspace, {
+              onProgress: progress.update,
+            });
+            await progress.stop();
+            const result = await saveResult(teamId, userId, messageText, versions, options, model, unavailable);
+            await postToResponseUrl(responseUrl, {
+              ...createDualVersionResponse(messageText, versions, resultDisplayOptions(result)),
+              replace_original: true,
+            });
+            log("shortcut_bg_done", { id, progressUpdates: progress.sent() });
+          } catch (err) {
+            log("shortcut_bg_err", { id, error: String(err) });
+            await progress.stop();
+            await postToResponseUrl(responseUrl, { ...createErrorResponse(`Error: ${err}`), replace_original: true });
+          }
+        })()
+      );
+
+      return json({
+        response_type: "ephemeral",
+        text: ":hourglass_flowing_sand: Rewording message...",
+      });
+    }
+
+    // The app's interactivity URL may point here, so button clicks and modals are handled too
+    return json(await handleInteraction(id, payload, context));
+  }
+
+  // Slack interactivity endpoint (for button clicks)
+  async function interactive(req: Request, context?: RequestContext): Promise<Response> {
+    const id = crypto.randomUUID().slice(0, 8);
+    log("interactive_req", { id });
+
+    const rawBody = await readSlackRequest(id, req);
+    if (rawBody instanceof Response) {
+      return rawBody;
+    }
+
+    const params = new URLSearchParams(rawBody);
+    const payloadStr = params.get("payload");
+    if (!payloadStr) {
+      return json({ error: "Missing payload" }, 400);
+    }
+
+    const payload: SlackInteractionPayload = JSON.parse(payloadStr);
+    log("interactive_parsed", { id, type: payload.type });
+
+    return json(await handleInteraction(id, payload, context));
+  }
+
+  // OAuth install: redirect to Slack's consent screen with a signed state
+  async function install(req: Request): Promise<Response> {
+    if (req.method !== "GET") {
+      return json({ error: "Method not allowed" }, 405);
+    }
+
+    const config = oauthConfig();
+    if (!config) {
+      log("no_oauth_config");
+      return json({ error: "Server configuration error" }, 500);
+    }
+
+    const state = await createOAuthState(config.stateSecret);
+    return Response.redirect(createInstallUrl(config, state), 302);
+  }
+
+  // OAuth callback: exchange the code and store bot/user tokens for the workspace
+  async function oauthCallback(req: Request): Promise<Response> {
+    if (req.method !== "GET") {
+      return json({ error: "Method not allowed" }, 405);
+    }
+
+    const id = crypto.randomUUID().slice(0, 8);
+    log("oauth_req", { id });
+
+    const config = oauthConfig();
+    if (!config) {
+      log("no_oauth_config", { id });
+      return json({ error: "Server configuration error" }, 500);
+    }
+
+    const query = new URL(req.url).searchParams;
+    const denied = query.get("error");
+    if (denied) {
+      log("oauth_denied", { id, error: denied });
+      return plainText(`Installation was cancelled (${denied}).`, 400);
+    }
+
+    if (!(await verifyOAuthState(config.stateSecret, query.get("state")))) {
+      log("oauth_bad_state", { id });
+      return plainText("This install link has expired. Please start the installation again.", 400);
+    }
+
+    const code = query.get("code");
+    if (!code) {
+      return plainText("Missing OAuth code.", 400);
+    }
+
+    const response = await exchangeOAuthCode(config, code);
+    if (!response.ok) {
+      log("oauth_err", { id, error: response.error });
+      return plainText(`Installation failed (${response.error}). Please try again.`, 502);
+    }
+
+    const installation = installationFromOAuth(response);
+    await installationStore.save(installation);
+    log("oauth_installed", {
+      id,
+      teamId: installation.teamId,
+      userTokens: Object.keys(installation.users).length,
+    });
+
+    return plainText(`Reword is installed in ${installation.teamName ?? installation.teamId}. You can close this tab.`);
+  }
+
+  // Feedback export for prompt tuning: one JSON record per line
+  async function feedbackExport(req: Request): Promise<Response> {
+    const exportToken = env.FEEDBACK_EXPORT_TOKEN;
+    if (!exportToken || req.method !== "GET") {
+      return json({ error: "Not found" }, 404);
+    }
+
+    const auth = req.headers.get("authorization") ?? "";
+    if (!timingSafeEqual(auth, `Bearer ${exportToken}`)) {
+      log("feedback_export_unauthorized");
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const records = await feedbackStore.list();
+    log("feedback_export", { count: records.length });
+    return new Response(formatFeedbackJsonl(records), { headers: { "Content-Type": "application/x-ndjson" } });
+  }
+
+  // Slack Events API endpoint
+  async function events(req: Request, context?: RequestContext): Promise<Response> {
+    const id = crypto.randomUUID().slice(0, 8);
+    log("events_req", { id });
+
+    const rawBody = await readSlackRequest(id, req);
+    if (rawBody instanceof Response) {
+      return rawBody;
+    }
+
+    const body = JSON.parse(rawBody);
+
+    if (body.type === "url_verification") {
+      return json({ challenge: body.challenge });
+    }
+
+    // We ack immediately, so a retry means the first delivery is already being processed
+    if (req.headers.get("x-slack-retry-num")) {
+      log("event_retry", { id, reason: req.headers.get("x-slack-retry-reason") });
+      return json({ ok: true });
+    }
+
+    if (body.type === "event_callback") {
+      const event = body.event;
+      const teamId = body.team_id;
+      log("event", { id, type: event?.type, teamId });
+
+      switch (event?.type) {
+        case "app_mention":
+          if (!event.bot_id) {
+            defer(context, handleMention(id, teamId, body.authorizations?.[0]?.user_id, event));
+          }
+          break;
+        case "message":
+          // Only plain user messages in DMs; edits, bot messages and our own replies are ignored
+          if (event.channel_type === "im" && !event.bot_id && !event.subtype) {
+            defer(context, handleDirectMessage(id, teamId, event));
+          }
+          break;
+        case "app_uninstalled":
+          await installationStore.delete(teamId);
+          log("uninstalled", { id, teamId });
+          break;
+        case "tokens_revoked":
+          await installationStore.revokeTokens(teamId, {
+            userIds: event.tokens?.oauth,
+            botUserIds: event.tokens?.bot,
+          });
+          log("tokens_revoked", { id, teamId });
+          break;
+      }
+    }
+
+    return json({ ok: true });
+  }
+
+  return { reword, toneCheck, shortcut, interactive, install, oauthCallback, feedbackExport, events };
+}
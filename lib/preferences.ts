@@ -0,0 +1,72 @@
+import { KeyValueStore } from "./storage.js";
+import { RewordOptions, applyOption, resolveOptionName } from "./commands.js";
+
+// Per-user defaults, applied underneath any flags given on the command itself
+export type UserPreferences = RewordOptions;
+
+export interface PreferencesStore {
+  get(teamId: string, userId: string): Promise<UserPreferences>;
+  set(teamId: string, userId: string, preferences: UserPreferences): Promise<void>;
+}
+
+export type SettingsUpdate =
+  | { type: "show" }
+  | { type: "updated"; preferences: UserPreferences }
+  | { type: "invalid"; error: string };
+
+const CLEAR_VALUES = ["default", "clear", "none", "reset"];
+
+function preferencesKey(teamId: string, userId: string): string {
+  return `${teamId}:${userId}`;
+}
+
+export function createPreferencesStore(store: KeyValueStore<UserPreferences>): PreferencesStore {
+  return {
+    async get(teamId, userId) {
+      return (await store.get(preferencesKey(teamId, userId))) ?? {};
+    },
+    async set(teamId, userId, preferences) {
+      if (Object.keys(preferences).length === 0) {
+        await store.delete(preferencesKey(teamId, userId));
+      } else {
+        await store.set(preferencesKey(teamId, userId), preferences);
+      }
+    },
+  };
+}
+
+export function mergeOptions(preferences: UserPreferences, options: RewordOptions): RewordOptions {
+  return { ...preferences, ...options };
+}
+
+// Interprets `/reword settings [reset | <setting> <value|default>]`
+export function applySettingsArgs(current: UserPreferences, args: string[]): SettingsUpdate {
+  if (args.length === 0) {
+    return { type: "show" };
+  }
+  if (args.length === 1 && args[0].toLowerCase() === "reset") {
+    return { type: "updated", preferences: {} };
+  }
+
+  const [name, ...valueParts] = args;
+  const value = valueParts.join(" ").trim();
+  const key = resolveOptionName(name);
+  if (!key) {
+    return {
+      type: "invalid",
+      error: `Unknown setting \`${name}\`. Available settings: \`style\`, \`language\`, \`length\`, \`audience\`.`,
+    };
+  }
+
+  const preferences: UserPreferences = { ...current };
+  delete preferences[key];
+  if (CLEAR_VALUES.includes(value.toLowerCase())) {
+    return { type: "updated", preferences };
+  }
+
+  const error = applyOption(preferences, name, value);
+  if (error) {
+    return { type: "invalid", error };
+  }
+  return { type: "updated", preferences };
+}
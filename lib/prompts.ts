@@ -1,3 +1,12 @@
+import { RewordStyle, getStyle } from "./styles.js";
+import { RewordOptions, RewordLength } from "./commands.js";
+import { WorkspaceConfig, applyWorkspaceExamples } from "./workspace.js";
+import { Entity } from "./entities.js";
+import { DetectedLanguage, LanguageProfile, getLanguage, resolveLanguage } from "./language.js";
+
+// Bump whenever the prompts change so feedback can be grouped by prompt revision
+export const PROMPT_VERSION = "2026-10-3";
+
 const BASE_RULES = `CRITICAL RULES:
 1. PRESERVE the exact meaning, intent, and urgency - never change what's being asked
 2. Keep @mentions exactly as written (e.g., @rouven stays @rouven)
@@ -6,45 +15,122 @@ const BASE_RULES = `CRITICAL RULES:
 5. For very short messages (1-3 words), keep response similarly brief
 6. Never add information that wasn't in the original
 7. Never remove questions or requests from the original
-8. Match the length/complexity of the original`;
+8. Match the length/complexity of the original
+9. Copy Slack formatting verbatim: <@U123> mentions, <#C123|channel> links, <https://...|label> links, :emoji: codes, \`code\`, URLs, numbers and ticket IDs like ABC-123
+10. Placeholders like [[P1]] stand for code, quotes or lists that must not change - keep each one exactly once, in the same place`;
 
-export const REWORD_CASUAL_PROMPT = `You are an expert at transforming workplace messages to be friendlier while keeping a casual Slack tone.
+const LENGTH_GUIDANCE: Record<RewordLength, string> = {
+  shorter: "Make the reworded message noticeably shorter than the original (this overrides the length rule above)",
+  same: "Keep the reworded message about the same length as the original",
+  longer: "Feel free to make the reworded message somewhat longer than the original to add warmth or context (this overrides the length rule above)",
+};
 
-${BASE_RULES}
+function createOptionsGuidance(options: RewordOptions): string {
+  const lines: string[] = [];
+  if (options.length) {
+    lines.push(LENGTH_GUIDANCE[options.length]);
+  }
+  if (options.audience) {
+    lines.push(`The message is addressed to: ${options.audience}. Adjust the register for this audience`);
+  }
+  if (lines.length === 0) {
+    return "";
+  }
+  return `\n\nADDITIONAL INSTRUCTIONS:\n${lines.map((line) => `- ${line}`).join("\n")}`;
+}
 
-STYLE - CASUAL:
-- Friendly, relaxed Slack tone
-- Use "Hey" or similar casual openers
-- Can use light expressions like "Thanks!" or "Appreciate it!"
-- Warm and approachable
-- Like messaging a friendly coworker
+// Keeps the source language unless a target is requested, plus tone guidance for the output language
+function createLanguageGuidance(style: RewordStyle, options: RewordOptions, source?: DetectedLanguage): string {
+  const lines: string[] = [];
+  let output: LanguageProfile | undefined;
+  let outputName: string | undefined;
 
-EXAMPLES:
-"need this asap" → "Hey, any chance you could prioritize this? Need it ASAP if possible!"
-"this is wrong" → "Hey, I think something's off here - mind taking a look?"
-"ok" → "Sounds good!"
-"send me the file" → "Hey, could you send me that file?"
+  if (options.language) {
+    output = resolveLanguage(options.language);
+    outputName = output?.name ?? options.language;
+    if (source && output?.code === source.code) {
+      lines.push(`Write the reworded message in ${outputName}, the language of the original`);
+    } else {
+      lines.push(`Write the reworded message in ${outputName}, translating it if the original is in another language`);
+    }
+  } else if (source) {
+    output = getLanguage(source.code);
+    outputName = source.name;
+    lines.push(`Write the reworded message in ${outputName}, the language of the original - do NOT translate it`);
+  } else {
+    return "";
+  }
 
-Output ONLY the reworded message.`;
+  if (output?.code !== "en") {
+    lines.push(`The examples above are in English; apply the same tone in ${outputName}`);
+  }
+  lines.push(...(output?.guidance ?? []), ...(output?.styleGuidance?.[style.id] ?? []));
+  return `\n\nLANGUAGE:\n${lines.map((line) => `- ${line}`).join("\n")}`;
+}
 
-export const REWORD_FORMAL_PROMPT = `You are an expert at transforming workplace messages to be more diplomatic while maintaining professionalism.
+function createHouseRules(workspace: WorkspaceConfig): string {
+  const rules = workspace.houseRules?.filter((rule) => rule.trim() !== "") ?? [];
+  if (rules.length === 0) {
+    return "";
+  }
+  return `\n\nHOUSE RULES (follow these as strictly as the critical rules):\n${rules.map((rule) => `- ${rule}`).join("\n")}`;
+}
+
+export function createStylePrompt(
+  style: RewordStyle,
+  options: RewordOptions = {},
+  workspace: WorkspaceConfig = {},
+  sourceLanguage?: DetectedLanguage
+): string {
+  const guidance = style.guidance.map((line) => `- ${line}`).join("\n");
+  const examples = applyWorkspaceExamples(workspace, style).examples
+    .map((example) => `"${example.original}" → "${example.reworded}"`)
+    .join("\n");
+
+  return `${style.role}
 
-${BASE_RULES}
+${BASE_RULES}${createHouseRules(workspace)}
 
-STYLE - FORMAL:
-- Professional and polished
-- No casual openers like "Hey"
-- Suitable for executives, clients, or formal contexts
-- Courteous but businesslike
-- Clear and direct while remaining respectful
+STYLE - ${style.label.toUpperCase()}:
+${guidance}
 
 EXAMPLES:
-"need this asap" → "Could you please prioritize this? It's time-sensitive."
-"this is wrong" → "I noticed an issue that may need attention - could you please review?"
-"ok" → "Understood."
-"send me the file" → "Would you be able to send me the file at your earliest convenience?"
+${examples}${createLanguageGuidance(style, options, sourceLanguage)}${createOptionsGuidance(options)}
 
 Output ONLY the reworded message.`;
+}
+
+// One prompt for every style at once, answered with a JSON object (see lib/combined.ts)
+export function createCombinedStylePrompt(
+  styles: RewordStyle[],
+  options: RewordOptions = {},
+  workspace: WorkspaceConfig = {},
+  sourceLanguage?: DetectedLanguage
+): string {
+  const sections = styles.map((style) => {
+    const guidance = style.guidance.map((line) => `- ${line}`).join("\n");
+    const examples = applyWorkspaceExamples(workspace, style).examples
+      .map((example) => `"${example.original}" → "${example.reworded}"`)
+      .join("\n");
+    return `STYLE "${style.id}" - ${style.label.toUpperCase()}:
+${guidance}
+
+EXAMPLES:
+${examples}${createLanguageGuidance(style, options, sourceLanguage)}`;
+  });
+
+  return `You are an expert at rewording Slack messages. You write several versions of the same message at once, one per style.
+
+${BASE_RULES}${createHouseRules(workspace)}
+
+${sections.join("\n\n")}${createOptionsGuidance(options)}
+
+Every version follows the critical rules on its own. Return "versions" with one entry per style id (${styles.map((s) => `"${s.id}"`).join(", ")}), each containing ONLY the reworded message. Optionally report "detectedLanguage" (the language of the original) and "changedPhrases" (phrases of the original you rephrased).`;
+}
+
+export const REWORD_CASUAL_PROMPT = createStylePrompt(getStyle("casual")!);
+
+export const REWORD_FORMAL_PROMPT = createStylePrompt(getStyle("formal")!);
 
 // Legacy prompt for backward compatibility
 export const REWORD_SYSTEM_PROMPT = REWORD_CASUAL_PROMPT;
@@ -52,3 +138,65 @@ export const REWORD_SYSTEM_PROMPT = REWORD_CASUAL_PROMPT;
 export function createRewordUserPrompt(message: string): string {
   return message;
 }
+
+// Follow-up turn in a DM: revise a previous rewording according to the user's instruction
+export function createRefineUserPrompt(original: string, previous: string, instruction: string): string {
+  return `Original message:
+${original}
+
+Your previous rewording:
+${previous}
+
+Revise your rewording according to this feedback: ${instruction}
+Keep following all the rules above. Output ONLY the revised message.`;
+}
+
+// Regenerate: ask for a version that differs from the one the user rejected
+export function createRegenerateUserPrompt(message: string, previous: string): string {
+  return `${message}
+
+(A previous rewording was: "${previous}". The user asked for another option - write a noticeably different version that still follows every rule.)`;
+}
+
+// Tone check: scores a draft without rewriting it; the response shape is enforced by TONE_CHECK_SCHEMA
+export const TONE_CHECK_SYSTEM_PROMPT = `You are an expert at reviewing workplace messages before they are sent on Slack. You assess the tone of a draft - you NEVER rewrite it.
+
+Score the draft from 1 to 10 on:
+- harshness: how blunt, curt, or hostile it will read to the recipient (1 = warm, 10 = hostile)
+- clarity: how easy it is to understand what is being said or asked (1 = confusing, 10 = crystal clear)
+- urgency: how time-pressured it sounds (1 = no pressure, 10 = drop everything)
+
+List the specific phrases that read as blunt, each quoted EXACTLY as it appears in the draft, with a short reason. Return an empty list if nothing reads as blunt.
+
+Write a short explanation (1-3 sentences) of how the message is likely to land. Do not suggest a rewritten message.
+
+Short, neutral messages like "ok" or "thanks" are fine - do not penalize brevity on its own.`;
+
+export function createToneCheckUserPrompt(message: string): string {
+  return `Draft to review:
+${message}`;
+}
+
+// "Why these changes?": coaching notes on one version; the response shape is enforced by EXPLANATION_SCHEMA
+export const EXPLAIN_SYSTEM_PROMPT = `You are a communication coach. You are shown a workplace message and a reworded version of it, and you explain the rewording - you NEVER rewrite it again.
+
+List the specific changes that matter, most important first:
+- original: the phrase from the original message, quoted EXACTLY as it appears, or an empty string if something was only added
+- revised: what it became in the reworded version, or an empty string if it was removed
+- reason: one short sentence on how the original reads to the recipient and why the change helps, e.g. "'no excuses' reads as accusatory"
+
+Skip trivial edits like punctuation or capitalization. Return an empty list if the wording barely changed.`;
+
+export function createExplainUserPrompt(original: string, reworded: string, styleLabel: string): string {
+  return `Original message:
+${original}
+
+Reworded (${styleLabel.toLowerCase()}) version:
+${reworded}`;
+}
+
+// Appended to the user prompt when a version dropped or altered Slack entities or literal content
+export function createEntityRetryNote(missing: Entity[]): string {
+  return `IMPORTANT: A previous attempt dropped or changed the items below. Copy every one of them into your rewording EXACTLY as written, including the <...> Slack formatting:
+${missing.map((entity) => `- ${entity.raw}`).join("\n")}`;
+}
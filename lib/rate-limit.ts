@@ -0,0 +1,175 @@
+import { KeyValueStore } from "./storage.js";
+import { KvConfig, kvCommand } from "./kv-store.js";
+
+// Token bucket: up to `burst` requests at once, refilled at `perMinute`
+export interface RateLimit {
+  burst: number;
+  perMinute: number;
+}
+
+export interface RateLimits {
+  user: RateLimit;
+  team: RateLimit;
+}
+
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export type RateLimitScope = keyof RateLimits;
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; scope: RateLimitScope; retryAfterMs: number };
+
+export interface RateLimiter {
+  // Takes one token from both the user's and the workspace's bucket, or none if either is empty
+  consume(teamId: string, userId: string, limits: RateLimits): Promise<RateLimitDecision>;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  user: { burst: 10, perMinute: 5 },
+  team: { burst: 100, perMinute: 60 },
+};
+
+// Workspace overrides (WorkspaceConfig.rateLimits) on top of the defaults, field by field
+export function resolveRateLimits(overrides: Partial<Record<RateLimitScope, Partial<RateLimit>>> = {}): RateLimits {
+  return {
+    user: { ...DEFAULT_RATE_LIMITS.user, ...overrides.user },
+    team: { ...DEFAULT_RATE_LIMITS.team, ...overrides.team },
+  };
+}
+
+function refill(bucket: TokenBucket | undefined, limit: RateLimit, now: number): TokenBucket {
+  if (!bucket) {
+    return { tokens: limit.burst, updatedAt: now };
+  }
+  const refilled = bucket.tokens + ((now - bucket.updatedAt) / 60_000) * limit.perMinute;
+  return { tokens: Math.min(limit.burst, refilled), updatedAt: now };
+}
+
+function retryAfter(bucket: TokenBucket, limit: RateLimit): number {
+  if (limit.perMinute <= 0) {
+    return Infinity;
+  }
+  return Math.ceil(((1 - bucket.tokens) / limit.perMinute) * 60_000);
+}
+
+export function createRateLimiter(store: KeyValueStore<TokenBucket>, now: () => number = Date.now): RateLimiter {
+  // Buckets are read-modify-write, so calls for the same workspace (whose bucket every user
+  // call also takes from) are applied one after another
+  const queues = new Map<string, Promise<RateLimitDecision>>();
+
+  async function take(teamId: string, userId: string, limits: RateLimits): Promise<RateLimitDecision> {
+    const t = now();
+    const keys: Record<RateLimitScope, string> = { user: `user:${teamId}:${userId}`, team: `team:${teamId}` };
+    const user = refill(await store.get(keys.user), limits.user, t);
+    const team = refill(await store.get(keys.team), limits.team, t);
+
+    // The user's own limit is reported first, since it is the one they can do something about
+    const empty = user.tokens < 1 ? "user" : team.tokens < 1 ? "team" : undefined;
+    if (empty) {
+      const bucket = empty === "user" ? user : team;
+      return { allowed: false, scope: empty, retryAfterMs: retryAfter(bucket, limits[empty]) };
+    }
+
+    await store.set(keys.user, { ...user, tokens: user.tokens - 1 });
+    await store.set(keys.team, { ...team, tokens: team.tokens - 1 });
+    return { allowed: true };
+  }
+
+  return {
+    consume(teamId, userId, limits) {
+      const previous = queues.get(teamId) ?? Promise.resolve<RateLimitDecision>({ allowed: true });
+      const next = previous.catch(() => undefined).then(() => take(teamId, userId, limits));
+      queues.set(teamId, next);
+      // Drop the queue once it drains so idle workspaces don't accumulate
+      const cleanup = () => {
+        if (queues.get(teamId) === next) {
+          queues.delete(teamId);
+        }
+      };
+      next.then(cleanup, cleanup);
+      return next;
+    },
+  };
+}
+
+// Both buckets are refilled and spent inside Redis, so concurrent isolates can't all read the same full
+// bucket. Buckets are hashes of tokens/updatedAt; tokens come back as strings since Redis truncates numbers.
+const CONSUME_SCRIPT = `
+local now = tonumber(ARGV[1])
+local function refill(key, burst, perMinute)
+  local bucket = redis.call("HMGET", key, "tokens", "updatedAt")
+  if not bucket[1] then
+    return burst
+  end
+  return math.min(burst, tonumber(bucket[1]) + (now - tonumber(bucket[2])) / 60000 * perMinute)
+end
+local user = refill(KEYS[1], tonumber(ARGV[2]), tonumber(ARGV[3]))
+local team = refill(KEYS[2], tonumber(ARGV[4]), tonumber(ARGV[5]))
+if user < 1 then
+  return { "user", tostring(user) }
+end
+if team < 1 then
+  return { "team", tostring(team) }
+end
+redis.call("HSET", KEYS[1], "tokens", tostring(user - 1), "updatedAt", ARGV[1])
+redis.call("HSET", KEYS[2], "tokens", tostring(team - 1), "updatedAt", ARGV[1])
+redis.call("EXPIRE", KEYS[1], ARGV[6])
+redis.call("EXPIRE", KEYS[2], ARGV[6])
+return { "ok", "" }
+`;
+
+// Token buckets refill within minutes, so an idle hour is long enough to drop them
+const KV_BUCKET_TTL_SECONDS = 60 * 60;
+
+// Rate limiter for the edge, where every isolate shares the buckets through KV
+export function createKvRateLimiter(config: KvConfig, prefix: string, now: () => number = Date.now): RateLimiter {
+  return {
+    async consume(teamId, userId, limits) {
+      const t = now();
+      const [scope, tokens] = (await kvCommand(
+        config,
+        "EVAL",
+        CONSUME_SCRIPT,
+        2,
+        `${prefix}user:${teamId}:${userId}`,
+        `${prefix}team:${teamId}`,
+        t,
+        limits.user.burst,
+        limits.user.perMinute,
+        limits.team.burst,
+        limits.team.perMinute,
+        KV_BUCKET_TTL_SECONDS
+      )) as [string, string];
+      if (scope !== "user" && scope !== "team") {
+        return { allowed: true };
+      }
+      const bucket = { tokens: Number(tokens), updatedAt: t };
+      return { allowed: false, scope, retryAfterMs: retryAfter(bucket, limits[scope]) };
+    },
+  };
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.max(1, Math.ceil(ms / 1000));
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+// Friendly text for createErrorResponse
+export function describeRateLimit(decision: Extract<RateLimitDecision, { allowed: false }>): string {
+  const who =
+    decision.scope === "user"
+      ? "You're sending requests faster than your limit allows."
+      : "This workspace has hit its request limit.";
+  if (!Number.isFinite(decision.retryAfterMs)) {
+    return `${who} Ask a workspace admin to raise the limit.`;
+  }
+  return `${who} Please try again in ${formatDuration(decision.retryAfterMs)}.`;
+}
@@ -0,0 +1,67 @@
+import { KeyValueStore } from "./storage.js";
+import { RewordOptions } from "./commands.js";
+import { RewordedVersions, VersionExplanations } from "./slack.js";
+
+// A generated result, kept server-side so buttons only need to carry its id
+export interface RewordResult {
+  id: string;
+  teamId: string;
+  userId: string;
+  original: string;
+  versions: RewordedVersions;
+  // Styles that failed to generate and can be retried
+  unavailable?: string[];
+  // False when the result was posted where Send does not apply (public thread replies, DMs)
+  showSend?: boolean;
+  // Styles the user switched to the "Show changes" diff view
+  showChanges?: string[];
+  // "Why these changes?" notes generated so far, and the styles whose section is expanded
+  explanations?: VersionExplanations;
+  showExplanations?: string[];
+  options: RewordOptions;
+  model: string;
+  promptVersion: string;
+  // How many times the result was regenerated; each attempt asks for more variation
+  attempt: number;
+  createdAt: string;
+}
+
+export interface ResultStore {
+  get(id: string): Promise<RewordResult | undefined>;
+  save(result: RewordResult): Promise<void>;
+}
+
+export function createResultStore(store: KeyValueStore<RewordResult>): ResultStore {
+  return {
+    get(id) {
+      return store.get(id);
+    },
+    save(result) {
+      return store.set(result.id, result);
+    },
+  };
+}
+
+export function createResultId(): string {
+  return crypto.randomUUID();
+}
+
+// Copy/Send button values point at one version of a stored result instead of carrying its text,
+// which can exceed Slack's 2000 character limit for button values
+const VERSION_REF_PREFIX = "result:";
+
+export function encodeVersionRef(resultId: string, styleId: string): string {
+  return `${VERSION_REF_PREFIX}${resultId}:${styleId}`;
+}
+
+export function decodeVersionRef(value: string): { resultId: string; styleId: string } | null {
+  if (!value.startsWith(VERSION_REF_PREFIX)) {
+    return null;
+  }
+  const ref = value.slice(VERSION_REF_PREFIX.length);
+  const index = ref.lastIndexOf(":");
+  if (index <= 0 || index === ref.length - 1) {
+    return null;
+  }
+  return { resultId: ref.slice(0, index), styleId: ref.slice(index + 1) };
+}
@@ -0,0 +1,104 @@
+export interface SlackApiResponse {
+  ok: boolean;
+  error?: string;
+  [key: string]: unknown;
+}
+
+export interface PostMessageParams {
+  channel: string;
+  text: string;
+  thread_ts?: string;
+  blocks?: unknown[];
+}
+
+const SLACK_API_URL = "https://slack.com/api";
+
+// Calls a Slack Web API method with a JSON body; Slack reports failures as { ok: false, error }
+export async function callSlackApi(
+  method: string,
+  token: string,
+  body: Record<string, unknown> = {}
+): Promise<SlackApiResponse> {
+  const res = await fetch(`${SLACK_API_URL}/${method}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    return { ok: false, error: `http_${res.status}` };
+  }
+  return (await res.json()) as SlackApiResponse;
+}
+
+// Read methods such as conversations.replies only accept form-encoded bodies
+export async function callSlackApiForm(
+  method: string,
+  token: string,
+  params: Record<string, string>
+): Promise<SlackApiResponse> {
+  const res = await fetch(`${SLACK_API_URL}/${method}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Authorization: `Bearer ${token}`,
+    },
+    body: new URLSearchParams(params).toString(),
+  });
+  if (!res.ok) {
+    return { ok: false, error: `http_${res.status}` };
+  }
+  return (await res.json()) as SlackApiResponse;
+}
+
+export function postMessage(token: string, params: PostMessageParams): Promise<SlackApiResponse> {
+  return callSlackApi("chat.postMessage", token, { ...params });
+}
+
+// Returns the user a token belongs to, or undefined if the token is invalid
+export async function getTokenUserId(token: string): Promise<string | undefined> {
+  const res = await callSlackApi("auth.test", token);
+  return res.ok ? (res.user_id as string) : undefined;
+}
+
+export interface SlackMessage {
+  ts: string;
+  text?: string;
+  user?: string;
+  bot_id?: string;
+  thread_ts?: string;
+}
+
+// The first message of a thread, i.e. the one everyone replied to
+export async function fetchThreadParent(
+  token: string,
+  channel: string,
+  threadTs: string
+): Promise<SlackMessage | undefined> {
+  const res = await callSlackApiForm("conversations.replies", token, {
+    channel,
+    ts: threadTs,
+    limit: "1",
+    inclusive: "true",
+  });
+  if (!res.ok) {
+    return undefined;
+  }
+  return (res.messages as SlackMessage[] | undefined)?.[0];
+}
+
+export function openView(token: string, triggerId: string, view: object): Promise<SlackApiResponse> {
+  return callSlackApi("views.open", token, { trigger_id: triggerId, view });
+}
+
+// Passing the hash from the last update makes Slack reject stale updates with hash_conflict
+export function updateView(
+  token: string,
+  viewId: string,
+  view: object,
+  hash?: string
+): Promise<SlackApiResponse> {
+  return callSlackApi("views.update", token, { view_id: viewId, view, ...(hash ? { hash } : {}) });
+}
@@ -1,3 +1,10 @@
+import { RewordStyle, getStyle } from "./styles.js";
+import { UserPreferences } from "./preferences.js";
+import { encodeFeedbackValue } from "./feedback.js";
+import { encodeVersionRef } from "./results.js";
+import { ToneCheckResult, ToneVerdict, toneVerdict } from "./tone-check.js";
+import { UsageQuota, UsageSummary } from "./usage.js";
+
 export interface SlackSlashCommandPayload {
   token: string;
   team_id: string;
@@ -12,6 +19,59 @@ export interface SlackSlashCommandPayload {
   trigger_id: string;
 }
 
+// The parts of Slack's interactivity payloads (the JSON in the "payload" form field) that we read
+export interface SlackViewInput {
+  value?: string | null;
+  selected_option?: { value: string } | null;
+}
+
+export interface SlackView {
+  id: string;
+  hash: string;
+  callback_id: string;
+  private_metadata: string;
+  state?: { values: Record<string, Record<string, SlackViewInput>> };
+}
+
+export interface SlackAction {
+  action_id: string;
+  value?: string;
+  selected_option?: { value: string };
+}
+
+interface SlackInteractionBase {
+  user?: { id: string };
+  team?: { id: string } | null;
+  trigger_id: string;
+}
+
+export interface BlockActionsPayload extends SlackInteractionBase {
+  type: "block_actions";
+  actions?: SlackAction[];
+  response_url: string;
+  channel?: { id: string };
+  container?: { channel_id?: string; thread_ts?: string; is_ephemeral?: boolean };
+  message?: { text?: string; thread_ts?: string };
+  view?: SlackView;
+}
+
+export interface ViewSubmissionPayload extends SlackInteractionBase {
+  type: "view_submission";
+  view: SlackView;
+}
+
+// Message shortcuts arrive as "message_action"; global shortcuts as "shortcut"
+export interface ShortcutPayload extends SlackInteractionBase {
+  type: "message_action" | "shortcut";
+  callback_id: string;
+  response_url: string;
+  channel?: { id: string };
+  message?: { text?: string; thread_ts?: string };
+  text?: string;
+}
+
+export type SlackInteractionPayload = BlockActionsPayload | ViewSubmissionPayload | ShortcutPayload;
+
 export function parseSlashCommandPayload(body: string): SlackSlashCommandPayload {
   const params = new URLSearchParams(body);
   return {
@@ -47,24 +107,24 @@ export async function verifySlackRequest(
   }
 
   // Compute expected signature using Web Crypto API
-  const sigBasestring = `v0:${timestamp}:${body}`;
+  const expectedSignature = "v0=" + (await signHmacSha256(signingSecret, `v0:${timestamp}:${body}`));
+
+  // Use timing-safe comparison
+  return timingSafeEqual(signature, expectedSignature);
+}
+
+// Hex-encoded HMAC-SHA256 of `data`
+export async function signHmacSha256(secret: string, data: string): Promise<string> {
   const encoder = new TextEncoder();
   const key = await crypto.subtle.importKey(
     "raw",
-    encoder.encode(signingSecret),
+    encoder.encode(secret),
     { name: "HMAC", hash: "SHA-256" },
     false,
     ["sign"]
   );
-  const signatureBuffer = await crypto.subtle.sign(
-    "HMAC",
-    key,
-    encoder.encode(sigBasestring)
-  );
-  const expectedSignature = "v0=" + bufferToHex(signatureBuffer);
-
-  // Use timing-safe comparison
-  return timingSafeEqual(signature, expectedSignature);
+  const signatureBuffer = await crypto.subtle.sign("HMAC", key, encoder.encode(data));
+  return bufferToHex(signatureBuffer);
 }
 
 function bufferToHex(buffer: ArrayBuffer): string {
@@ -73,7 +133,7 @@ function bufferToHex(buffer: ArrayBuffer): string {
     .join("");
 }
 
-function timingSafeEqual(a: string, b: string): boolean {
+export function timingSafeEqual(a: string, b: string): boolean {
   if (a.length !== b.length) {
     return false;
   }
@@ -92,9 +152,21 @@ export interface SlackResponse {
   blocks?: unknown[];
 }
 
+// Reworded text keyed by style id, in display order
 export interface RewordedVersions {
-  casual: string;
-  formal: string;
+  [styleId: string]: string;
+}
+
+// One change the model made to a version and why; `original` is empty when the phrase was only added
+export interface PhraseExplanation {
+  original: string;
+  revised: string;
+  reason: string;
+}
+
+// "Why these changes?" notes keyed by style id
+export interface VersionExplanations {
+  [styleId: string]: PhraseExplanation[];
 }
 
 export function createSlackResponse(
@@ -134,55 +206,435 @@ export function createSlackResponse(
   };
 }
 
+export interface VersionResponseOptions {
+  // Send posts into the originating conversation, which makes no sense in a DM with the bot
+  showSend?: boolean;
+  hint?: string;
+  // Enables the regenerate buttons, which look the stored result up by this id
+  resultId?: string;
+  // Language names shown in the context line, e.g. "German" or "German → French"
+  detectedLanguage?: string;
+  targetLanguage?: string;
+  // Partial text while generation is still running: no buttons, and a cursor after each version
+  streaming?: boolean;
+  // Styles that failed to generate, shown with a Retry button instead of text
+  unavailable?: string[];
+  // Styles shown as a word diff against the original, toggled by their "Show changes" button
+  showChanges?: string[];
+  // Expanded "Why these changes?" sections; styles not listed show the button collapsed
+  explanations?: VersionExplanations;
+}
+
+export interface DiffPart {
+  type: "same" | "removed" | "added";
+  text: string;
+}
+
+// Above this many token pairs the diff just replaces the whole message
+const MAX_DIFF_CELLS = 4_000_000;
+
+function tokenizeWords(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+// Word-level diff via the longest common subsequence of words and whitespace runs.
+// Whitespace between two changes is folded into them, so "a b c" -> "a x y c" is one change.
+export function diffWords(original: string, reworded: string): DiffPart[] {
+  const a = tokenizeWords(original);
+  const b = tokenizeWords(reworded);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      { type: "removed", text: original },
+      { type: "added", text: reworded },
+    ];
+  }
+
+  // lcs[i * width + j] is the LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j] ? lcs[(i + 1) * width + j + 1] + 1 : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: "same", text: a[i++] });
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      ops.push({ type: "added", text: b[j++] });
+    } else {
+      ops.push({ type: "removed", text: a[i++] });
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let removed = "";
+  let added = "";
+  const flush = () => {
+    if (removed) parts.push({ type: "removed", text: removed });
+    if (added) parts.push({ type: "added", text: added });
+    removed = "";
+    added = "";
+  };
+  ops.forEach((op, index) => {
+    const inChange = removed !== "" || added !== "";
+    const next = ops[index + 1];
+    if (op.type === "same" && inChange && /^\s+$/.test(op.text) && next && next.type !== "same") {
+      removed += op.text;
+      added += op.text;
+    } else if (op.type === "removed") {
+      removed += op.text;
+    } else if (op.type === "added") {
+      added += op.text;
+    } else {
+      flush();
+      const last = parts[parts.length - 1];
+      if (last?.type === "same") {
+        last.text += op.text;
+      } else {
+        parts.push({ ...op });
+      }
+    }
+  });
+  flush();
+  return parts;
+}
+
+// Wraps the non-whitespace core of a change, since mrkdwn ignores markers next to spaces
+function wrapChange(text: string, marker: string): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  const [, lead, core, trail] = match ?? ["", "", text, ""];
+  return core ? `${lead}${marker}${core}${marker}${trail}` : text;
+}
+
+// mrkdwn with removed phrases struck through and added phrases bolded
+export function formatWordDiff(original: string, reworded: string): string {
+  const parts = diffWords(original, reworded);
+  return parts
+    .map((part, index) => {
+      if (part.type === "same") {
+        return part.text;
+      }
+      if (part.type === "added") {
+        return wrapChange(part.text, "*");
+      }
+      // A replaced phrase is followed by its replacement, which carries the trailing whitespace
+      return parts[index + 1]?.type === "added"
+        ? `${wrapChange(part.text.trimEnd(), "~")} `
+        : wrapChange(part.text, "~");
+    })
+    .join("");
+}
+
+function describeLanguage(options: VersionResponseOptions): string | undefined {
+  const { detectedLanguage, targetLanguage } = options;
+  if (targetLanguage && targetLanguage !== detectedLanguage) {
+    return detectedLanguage ? `🌐 ${detectedLanguage} → ${targetLanguage}` : `🌐 Translated to ${targetLanguage}`;
+  }
+  return detectedLanguage ? `🌐 Detected: ${detectedLanguage}` : undefined;
+}
+
+function createStreamingVersionBlock(styleId: string, heading: string, text: string): unknown {
+  return {
+    type: "section",
+    block_id: `${styleId}_block`,
+    text: { type: "mrkdwn", text: `*${heading}:* ${text ? `${text} ▍` : "_…_"}` },
+  };
+}
+
+function createUnavailableVersionBlock(styleId: string, options: VersionResponseOptions): unknown {
+  const style = getStyle(styleId);
+  const heading = style ? `${style.emoji} ${style.label}` : styleId;
+  return {
+    type: "section",
+    block_id: `${styleId}_block`,
+    text: { type: "mrkdwn", text: `*${heading}:* :warning: _Unavailable right now._` },
+    ...(options.resultId
+      ? {
+          accessory: {
+            type: "button",
+            text: { type: "plain_text", text: "🔄 Retry", emoji: true },
+            action_id: `regenerate_${styleId}`,
+            value: options.resultId,
+          },
+        }
+      : {}),
+  };
+}
+
+function formatExplanation(change: PhraseExplanation): string {
+  if (!change.original) {
+    return `• Added "${change.revised}": ${change.reason}`;
+  }
+  if (!change.revised) {
+    return `• Dropped "${change.original}": ${change.reason}`;
+  }
+  return `• "${change.original}" → "${change.revised}": ${change.reason}`;
+}
+
+function createExplanationBlock(styleId: string, changes: PhraseExplanation[]): unknown {
+  const lines = changes.length
+    ? changes.map(formatExplanation)
+    : ["_Nothing stood out - this version mostly keeps your wording._"];
+  return {
+    type: "context",
+    block_id: `${styleId}_why`,
+    elements: [{ type: "mrkdwn", text: ["*💡 Why these changes?*", ...lines].join("\n") }],
+  };
+}
+
+// A diff against the original only makes sense when the version stays in the same language
+function canShowChanges(options: VersionResponseOptions): boolean {
+  return !options.targetLanguage || options.targetLanguage === options.detectedLanguage;
+}
+
+function createVersionBlocks(
+  styleId: string,
+  text: string,
+  originalMessage: string,
+  options: VersionResponseOptions
+): unknown[] {
+  const style = getStyle(styleId);
+  const heading = style ? `${style.emoji} ${style.label}` : styleId;
+  if (options.streaming) {
+    return [createStreamingVersionBlock(styleId, heading, text)];
+  }
+  const showingChanges = canShowChanges(options) && (options.showChanges ?? []).includes(styleId);
+  const explanation = options.explanations?.[styleId];
+  // Without a stored result the buttons have to carry the text itself
+  const versionValue = options.resultId ? encodeVersionRef(options.resultId, styleId) : text;
+  const blocks: unknown[] = [
+    {
+      type: "section",
+      block_id: `${styleId}_block`,
+      text: {
+        type: "mrkdwn",
+        text: `*${heading}:* ${showingChanges ? formatWordDiff(originalMessage, text) : text}`,
+      },
+      accessory: {
+        type: "button",
+        text: {
+          type: "plain_text",
+          text: "📋 Copy",
+          emoji: true,
+        },
+        action_id: `copy_${styleId}`,
+        value: versionValue,
+      },
+    },
+  ];
+  const actions: unknown[] = [];
+  if (options.showSend !== false) {
+    actions.push({
+      type: "button",
+      text: {
+        type: "plain_text",
+        text: "📤 Send",
+        emoji: true,
+      },
+      action_id: `send_${styleId}`,
+      value: versionValue,
+    });
+  }
+  if (options.resultId) {
+    actions.push({
+      type: "button",
+      text: {
+        type: "plain_text",
+        text: "🔄 Regenerate",
+        emoji: true,
+      },
+      action_id: `regenerate_${styleId}`,
+      value: options.resultId,
+    });
+    if (canShowChanges(options)) {
+      actions.push({
+        type: "button",
+        text: { type: "plain_text", text: showingChanges ? "🙈 Hide changes" : "🔍 Show changes", emoji: true },
+        action_id: `changes_${styleId}`,
+        value: options.resultId,
+      });
+    }
+    actions.push({
+      type: "button",
+      text: { type: "plain_text", text: explanation ? "💡 Hide reasons" : "💡 Why these changes?", emoji: true },
+      action_id: `explain_${styleId}`,
+      value: options.resultId,
+    });
+    actions.push(
+      {
+        type: "button",
+        text: { type: "plain_text", text: "👍", emoji: true },
+        action_id: `feedback_up_${styleId}`,
+        value: encodeFeedbackValue(options.resultId, styleId),
+      },
+      {
+        type: "button",
+        text: { type: "plain_text", text: "👎", emoji: true },
+        action_id: `feedback_down_${styleId}`,
+        value: encodeFeedbackValue(options.resultId, styleId),
+      }
+    );
+  }
+  if (explanation) {
+    blocks.push(createExplanationBlock(styleId, explanation));
+  }
+  if (actions.length > 0) {
+    blocks.push({ type: "actions", block_id: `${styleId}_actions`, elements: actions });
+  }
+  return blocks;
+}
+
 export function createDualVersionResponse(
   originalMessage: string,
-  versions: RewordedVersions
+  versions: RewordedVersions,
+  options: VersionResponseOptions = {}
 ): SlackResponse {
+  const entries = Object.entries(versions);
+  const unavailable = options.unavailable ?? [];
+  const resultActions =
+    options.resultId && entries.length + unavailable.length > 1 && !options.streaming
+      ? [
+          {
+            type: "actions",
+            block_id: "result_actions",
+            elements: [
+              {
+                type: "button",
+                text: { type: "plain_text", text: "🔄 Regenerate all", emoji: true },
+                action_id: "regenerate_all",
+                value: options.resultId,
+              },
+            ],
+          },
+        ]
+      : [];
+  const language = describeLanguage(options);
+
+  return {
+    response_type: "ephemeral",
+    blocks: [
+      ...entries.flatMap(([styleId, text]) => createVersionBlocks(styleId, text, originalMessage, options)),
+      ...unavailable.map((styleId) => createUnavailableVersionBlock(styleId, options)),
+      ...resultActions,
+      {
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: `_Original: ${originalMessage}_`,
+          },
+          ...(language ? [{ type: "mrkdwn", text: language }] : []),
+          ...(options.hint ? [{ type: "mrkdwn", text: options.hint }] : []),
+        ],
+      },
+    ],
+  };
+}
+
+export function createHelpResponse(command = "/reword", intro?: string): SlackResponse {
+  const usage = [
+    `\`${command} <message>\` - Reword a message`,
+    `\`${command} --style=formal,concise <message>\` - Pick which styles to generate`,
+    `\`${command} --language=German <message>\` - Reword and translate into another language`,
+    `\`${command} --length=shorter|same|longer <message>\` - Adjust the length`,
+    `\`${command} --audience="the client" <message>\` - Tailor the register to an audience`,
+    `\`${command} styles\` - List available styles`,
+    `\`${command} settings\` - Show your settings`,
+    `\`${command} usage\` - Show this month's usage for you and your workspace`,
+    `\`${command} help\` - Show this help`,
+  ];
+
   return {
     response_type: "ephemeral",
+    text: intro ?? `Usage: \`${command} <your message>\``,
     blocks: [
+      ...(intro
+        ? [{ type: "section", text: { type: "mrkdwn", text: `:information_source: ${intro}` } }]
+        : []),
+      {
+        type: "header",
+        text: { type: "plain_text", text: "Reword help", emoji: true },
+      },
       {
         type: "section",
-        block_id: "casual_block",
-        text: {
-          type: "mrkdwn",
-          text: `*💬 Casual:* ${versions.casual}`,
-        },
-        accessory: {
-          type: "button",
-          text: {
-            type: "plain_text",
-            text: "📋 Copy",
-            emoji: true,
+        text: { type: "mrkdwn", text: usage.map((line) => `• ${line}`).join("\n") },
+      },
+      {
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: "Options go before the message, e.g. `--style=empathetic --length=shorter need this asap`",
           },
-          action_id: "copy_casual",
-          value: versions.casual,
-        },
+        ],
+      },
+    ],
+  };
+}
+
+export function createStylesResponse(styles: RewordStyle[], defaultStyleIds: string[]): SlackResponse {
+  return {
+    response_type: "ephemeral",
+    text: `Available styles: ${styles.map((s) => s.id).join(", ")}`,
+    blocks: [
+      {
+        type: "header",
+        text: { type: "plain_text", text: "Available styles", emoji: true },
       },
       {
         type: "section",
-        block_id: "formal_block",
         text: {
           type: "mrkdwn",
-          text: `*👔 Formal:* ${versions.formal}`,
-        },
-        accessory: {
-          type: "button",
-          text: {
-            type: "plain_text",
-            text: "📋 Copy",
-            emoji: true,
-          },
-          action_id: "copy_formal",
-          value: versions.formal,
+          text: styles
+            .map((style) => {
+              const isDefault = defaultStyleIds.includes(style.id) ? " _(default)_" : "";
+              return `${style.emoji} *${style.label}* \`${style.id}\`${isDefault} - ${style.description}`;
+            })
+            .join("\n"),
         },
       },
+    ],
+  };
+}
+
+export function createSettingsResponse(
+  styles: RewordStyle[],
+  preferences: UserPreferences,
+  notice?: string
+): SlackResponse {
+  const fields = [
+    `*Styles:* ${styles.map((s) => `${s.emoji} ${s.label}`).join(", ")}`,
+    `*Language:* ${preferences.language ?? "_same as the message_"}`,
+    `*Length:* ${preferences.length ?? "_match the original_"}`,
+    `*Audience:* ${preferences.audience ?? "_not set_"}`,
+  ];
+
+  return {
+    response_type: "ephemeral",
+    text: notice ?? `Default styles: ${styles.map((s) => s.id).join(", ")}`,
+    blocks: [
+      ...(notice ? [{ type: "section", text: { type: "mrkdwn", text: notice } }] : []),
+      {
+        type: "header",
+        text: { type: "plain_text", text: "Your settings", emoji: true },
+      },
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: fields.join("\n") },
+      },
       {
         type: "context",
         elements: [
           {
             type: "mrkdwn",
-            text: `_Original: ${originalMessage}_`,
+            text: "Change with `/reword settings style formal,concise`, `/reword settings language German`, `/reword settings length default` or `/reword settings reset`",
           },
         ],
       },
@@ -190,6 +642,54 @@ export function createDualVersionResponse(
   };
 }
 
+function formatUsage(summary: UsageSummary): string {
+  const tokens = summary.inputTokens + summary.outputTokens;
+  return `${summary.calls.toLocaleString("en-US")} calls · ${tokens.toLocaleString("en-US")} tokens (${summary.inputTokens.toLocaleString("en-US")} in / ${summary.outputTokens.toLocaleString("en-US")} out) · ~$${summary.costUsd.toFixed(2)}`;
+}
+
+function formatQuota(summary: UsageSummary, quota: UsageQuota): string {
+  const limits = [
+    ...(quota.monthlyTokens !== undefined
+      ? [`${(summary.inputTokens + summary.outputTokens).toLocaleString("en-US")} / ${quota.monthlyTokens.toLocaleString("en-US")} tokens`]
+      : []),
+    ...(quota.monthlyCostUsd !== undefined ? [`$${summary.costUsd.toFixed(2)} / $${quota.monthlyCostUsd.toFixed(2)}`] : []),
+  ];
+  const action = quota.onExceeded === "refuse" ? "requests are refused" : "a cheaper model is used";
+  return `*Quota:* ${limits.join(" · ")} _(once exceeded, ${action})_`;
+}
+
+// `/reword usage`: this month's consumption for the user and their workspace
+export function createUsageResponse(
+  month: string,
+  user: UsageSummary,
+  team: UsageSummary,
+  quota?: UsageQuota
+): SlackResponse {
+  const lines = [`*You:* ${formatUsage(user)}`, `*Workspace:* ${formatUsage(team)}`];
+  if (quota && (quota.monthlyTokens !== undefined || quota.monthlyCostUsd !== undefined)) {
+    lines.push(formatQuota(team, quota));
+  }
+
+  return {
+    response_type: "ephemeral",
+    text: `Usage for ${month}: ${formatUsage(user)}`,
+    blocks: [
+      {
+        type: "header",
+        text: { type: "plain_text", text: `Usage for ${month}`, emoji: true },
+      },
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: lines.join("\n") },
+      },
+      {
+        type: "context",
+        elements: [{ type: "mrkdwn", text: "Costs are estimates based on list prices per model." }],
+      },
+    ],
+  };
+}
+
 export function createErrorResponse(message: string): SlackResponse {
   return {
     response_type: "ephemeral",
@@ -197,16 +697,201 @@ export function createErrorResponse(message: string): SlackResponse {
   };
 }
 
-export async function postToResponseUrl(
-  responseUrl: string,
-  response: SlackResponse
-): Promise<void> {
-  const res = await fetch(responseUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(response),
+export const TONE_CHECK_SHORTCUT_ID = "tone_check";
+
+const TONE_VERDICTS: Record<ToneVerdict, string> = {
+  ok: ":white_check_mark: *Looks good to send.*",
+  soften: ":large_yellow_circle: *Could be softened a little.*",
+  harsh: ":red_circle: *Likely to come across as harsh.*",
+};
+
+// Ten-cell bar, e.g. "▰▰▰▱▱▱▱▱▱▱ 3/10"
+function scoreBar(score: number): string {
+  return `${"▰".repeat(score)}${"▱".repeat(10 - score)} ${score}/10`;
+}
+
+export function createToneCheckResponse(originalMessage: string, result: ToneCheckResult): SlackResponse {
+  const phrases =
+    result.bluntPhrases.length > 0
+      ? result.bluntPhrases.map((p) => `• "${p.phrase}"${p.reason ? ` - ${p.reason}` : ""}`).join("\n")
+      : "_Nothing stands out as blunt._";
+
+  return {
+    response_type: "ephemeral",
+    text: `Tone check: harshness ${result.harshness}/10, clarity ${result.clarity}/10, urgency ${result.urgency}/10`,
+    blocks: [
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: TONE_VERDICTS[toneVerdict(result)] },
+      },
+      {
+        type: "section",
+        fields: [
+          { type: "mrkdwn", text: `*Harshness*\n${scoreBar(result.harshness)}` },
+          { type: "mrkdwn", text: `*Clarity*\n${scoreBar(result.clarity)}` },
+          { type: "mrkdwn", text: `*Urgency*\n${scoreBar(result.urgency)}` },
+        ],
+      },
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: `*Phrases that read as blunt*\n${phrases}` },
+      },
+      ...(result.explanation
+        ? [{ type: "section", text: { type: "mrkdwn", text: result.explanation } }]
+        : []),
+      {
+        type: "context",
+        elements: [{ type: "mrkdwn", text: `_Draft: ${originalMessage}_` }],
+      },
+    ],
+  };
+}
+
+export const REWORD_MODAL_CALLBACK_ID = "reword_modal";
+
+// Where a message sent from the modal goes, carried in the view's private_metadata
+export interface RewordModalMetadata {
+  teamId: string;
+  channel: string;
+  threadTs?: string;
+  // Bumped on every regeneration so Slack shows the new preview instead of the user's old edits.
+  // Kept here rather than read back from the preview block, which is missing while generating or on errors
+  revision: number;
+}
+
+export interface RewordModalState {
+  original: string;
+  styleId: string;
+  styles: RewordStyle[];
+  // Undefined while a version is being generated
+  preview?: string;
+  error?: string;
+  metadata: RewordModalMetadata;
+}
+
+export interface RewordModalValues {
+  original: string;
+  styleId: string;
+  preview: string;
+}
+
+export function createRewordModal(state: RewordModalState): object {
+  const styleOption = (style: RewordStyle) => ({
+    text: { type: "plain_text", text: `${style.emoji} ${style.label}`, emoji: true },
+    value: style.id,
   });
-  if (!res.ok) {
-    console.error("Failed to post to response_url:", res.status, await res.text());
+  const selected = state.styles.find((style) => style.id === state.styleId) ?? state.styles[0];
+
+  let previewBlock: unknown;
+  if (state.error) {
+    previewBlock = { type: "section", text: { type: "mrkdwn", text: `:warning: ${state.error}` } };
+  } else if (state.preview === undefined) {
+    previewBlock = {
+      type: "section",
+      text: { type: "mrkdwn", text: ":hourglass_flowing_sand: Rewording your message..." },
+    };
+  } else {
+    previewBlock = {
+      type: "input",
+      block_id: `preview_${state.metadata.revision}`,
+      label: { type: "plain_text", text: "Preview (edit before sending)" },
+      element: {
+        type: "plain_text_input",
+        action_id: "preview_input",
+        multiline: true,
+        initial_value: state.preview,
+      },
+    };
   }
+
+  return {
+    type: "modal",
+    callback_id: REWORD_MODAL_CALLBACK_ID,
+    private_metadata: JSON.stringify(state.metadata),
+    title: { type: "plain_text", text: "Reword message" },
+    ...(state.preview !== undefined && !state.error
+      ? { submit: { type: "plain_text", text: "Send" } }
+      : {}),
+    close: { type: "plain_text", text: "Cancel" },
+    blocks: [
+      {
+        type: "input",
+        block_id: "original",
+        label: { type: "plain_text", text: "Original message" },
+        element: {
+          type: "plain_text_input",
+          action_id: "original_input",
+          multiline: true,
+          initial_value: state.original,
+        },
+      },
+      {
+        type: "input",
+        block_id: "style",
+        dispatch_action: true,
+        label: { type: "plain_text", text: "Style" },
+        element: {
+          type: "static_select",
+          action_id: "style_select",
+          options: state.styles.map(styleOption),
+          ...(selected ? { initial_option: styleOption(selected) } : {}),
+        },
+      },
+      previewBlock,
+      {
+        type: "actions",
+        block_id: "modal_actions",
+        elements: [
+          {
+            type: "button",
+            text: { type: "plain_text", text: "🔄 Regenerate", emoji: true },
+            action_id: "modal_regenerate",
+          },
+        ],
+      },
+    ],
+  };
+}
+
+// Reads the current inputs of a submitted or interacted-with reword modal
+export function readRewordModalValues(view: SlackView | undefined): RewordModalValues {
+  const values = view?.state?.values ?? {};
+  const previewBlockId = Object.keys(values).find((blockId) => blockId.startsWith("preview_"));
+  return {
+    original: values.original?.original_input?.value ?? "",
+    styleId: values.style?.style_select?.selected_option?.value ?? "",
+    preview: previewBlockId ? values[previewBlockId].preview_input?.value ?? "" : "",
+  };
+}
+
+export const FEEDBACK_MODAL_CALLBACK_ID = "feedback_comment";
+
+// Optional comment after a 👎; the rating itself is already recorded when the modal opens
+export function createFeedbackModal(privateMetadata: string): object {
+  return {
+    type: "modal",
+    callback_id: FEEDBACK_MODAL_CALLBACK_ID,
+    private_metadata: privateMetadata,
+    title: { type: "plain_text", text: "Feedback" },
+    submit: { type: "plain_text", text: "Submit" },
+    close: { type: "plain_text", text: "Skip" },
+    blocks: [
+      {
+        type: "input",
+        block_id: "comment",
+        optional: true,
+        label: { type: "plain_text", text: "What was wrong with this version?" },
+        element: {
+          type: "plain_text_input",
+          action_id: "comment_input",
+          multiline: true,
+          max_length: 1000,
+        },
+      },
+    ],
+  };
+}
+
+export function readFeedbackComment(view: SlackView | undefined): string {
+  return (view?.state?.values?.comment?.comment_input?.value ?? "").trim();
 }
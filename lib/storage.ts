@@ -0,0 +1,44 @@
+export interface KeyValueStore<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Every value, or only those whose key starts with `prefix`
+  values(prefix?: string): Promise<T[]>;
+}
+
+export interface MemoryStoreOptions {
+  // Oldest entries are evicted once the store holds this many
+  maxEntries?: number;
+  // Reads also count as use, so the least recently read or written entry is evicted first
+  lru?: boolean;
+}
+
+export function createMemoryStore<T>(options: MemoryStoreOptions = {}): KeyValueStore<T> {
+  const data = new Map<string, T>();
+  return {
+    async get(key) {
+      const value = data.get(key);
+      if (options.lru && value !== undefined) {
+        data.delete(key);
+        data.set(key, value);
+      }
+      return value;
+    },
+    async set(key, value) {
+      data.delete(key);
+      data.set(key, value);
+      if (options.maxEntries !== undefined && data.size > options.maxEntries) {
+        const oldest = data.keys().next().value as string;
+        data.delete(oldest);
+      }
+    },
+    async delete(key) {
+      data.delete(key);
+    },
+    async values(prefix = "") {
+      return Array.from(data.entries())
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([, value]) => value);
+    },
+  };
+}
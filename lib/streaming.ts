@@ -0,0 +1,75 @@
+export interface ThrottleOptions {
+  // Minimum time between two sends
+  intervalMs: number;
+  // Sends allowed in total; later updates are dropped
+  maxUpdates: number;
+}
+
+export interface ThrottledUpdater<T> {
+  // Queues the latest value; older queued values are replaced, never sent
+  update(value: T): void;
+  // Cancels anything queued and waits for an in-flight send, so a final message can't be overtaken
+  stop(): Promise<void>;
+  sent(): number;
+}
+
+// Rate-limits progressive updates, e.g. to a response_url that only accepts a handful of posts
+export function createThrottledUpdater<T>(
+  send: (value: T) => Promise<void>,
+  options: ThrottleOptions
+): ThrottledUpdater<T> {
+  let pending: { value: T } | null = null;
+  let inFlight: Promise<void> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // The first send also waits a full interval, so it carries more than a few words
+  let lastSentAt = Date.now();
+  let count = 0;
+  let stopped = false;
+
+  function schedule(): void {
+    if (stopped || timer || inFlight || !pending || count >= options.maxUpdates) {
+      return;
+    }
+    const wait = Math.max(0, lastSentAt + options.intervalMs - Date.now());
+    timer = setTimeout(flush, wait);
+  }
+
+  function flush(): void {
+    timer = null;
+    if (stopped || !pending) {
+      return;
+    }
+    const { value } = pending;
+    pending = null;
+    count++;
+    lastSentAt = Date.now();
+    inFlight = send(value)
+      .catch(() => undefined)
+      .finally(() => {
+        inFlight = null;
+        schedule();
+      });
+  }
+
+  return {
+    update(value) {
+      if (stopped) {
+        return;
+      }
+      pending = { value };
+      schedule();
+    },
+    async stop() {
+      stopped = true;
+      pending = null;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      await inFlight;
+    },
+    sent() {
+      return count;
+    },
+  };
+}
@@ -0,0 +1,185 @@
+export interface StyleExample {
+  original: string;
+  reworded: string;
+}
+
+export interface RewordStyle {
+  id: string;
+  label: string;
+  emoji: string;
+  description: string;
+  role: string;
+  guidance: string[];
+  examples: StyleExample[];
+}
+
+const BUILT_IN_STYLES: RewordStyle[] = [
+  {
+    id: "casual",
+    label: "Casual",
+    emoji: "💬",
+    description: "Friendly, relaxed Slack tone",
+    role: "You are an expert at transforming workplace messages to be friendlier while keeping a casual Slack tone.",
+    guidance: [
+      "Friendly, relaxed Slack tone",
+      'Use "Hey" or similar casual openers',
+      'Can use light expressions like "Thanks!" or "Appreciate it!"',
+      "Warm and approachable",
+      "Like messaging a friendly coworker",
+    ],
+    examples: [
+      { original: "need this asap", reworded: "Hey, any chance you could prioritize this? Need it ASAP if possible!" },
+      { original: "this is wrong", reworded: "Hey, I think something's off here - mind taking a look?" },
+      { original: "ok", reworded: "Sounds good!" },
+      { original: "send me the file", reworded: "Hey, could you send me that file?" },
+    ],
+  },
+  {
+    id: "formal",
+    label: "Formal",
+    emoji: "👔",
+    description: "Polished and professional",
+    role: "You are an expert at transforming workplace messages to be more diplomatic while maintaining professionalism.",
+    guidance: [
+      "Professional and polished",
+      'No casual openers like "Hey"',
+      "Suitable for executives, clients, or formal contexts",
+      "Courteous but businesslike",
+      "Clear and direct while remaining respectful",
+    ],
+    examples: [
+      { original: "need this asap", reworded: "Could you please prioritize this? It's time-sensitive." },
+      { original: "this is wrong", reworded: "I noticed an issue that may need attention - could you please review?" },
+      { original: "ok", reworded: "Understood." },
+      { original: "send me the file", reworded: "Would you be able to send me the file at your earliest convenience?" },
+    ],
+  },
+  {
+    id: "apologetic",
+    label: "Apologetic",
+    emoji: "🙏",
+    description: "Owns the inconvenience, ideal for support replies",
+    role: "You are an expert at transforming workplace messages into gracious, apologetic replies that still get the point across.",
+    guidance: [
+      "Acknowledge the inconvenience or mistake sincerely",
+      "Take ownership without over-apologizing",
+      "Keep the request or next step clearly visible",
+      "Suitable for customer support and incident follow-ups",
+    ],
+    examples: [
+      { original: "need this asap", reworded: "Sorry for the short notice - could you prioritize this? It's needed ASAP." },
+      { original: "this is wrong", reworded: "Apologies, but I think something's off here - could you take another look?" },
+      { original: "ok", reworded: "Got it, thanks for your patience!" },
+      { original: "send me the file", reworded: "Sorry to bother you - could you send me the file?" },
+    ],
+  },
+  {
+    id: "concise",
+    label: "Concise",
+    emoji: "✂️",
+    description: "Short and polite, no filler",
+    role: "You are an expert at transforming workplace messages to be polite while staying as short as possible.",
+    guidance: [
+      "As few words as possible while staying courteous",
+      "No openers, filler, or sign-offs",
+      'A single "please" or "thanks" is enough',
+      "Never longer than the original unless politeness requires it",
+    ],
+    examples: [
+      { original: "need this asap", reworded: "Please prioritize this - needed ASAP." },
+      { original: "this is wrong", reworded: "Something looks off here, please check." },
+      { original: "ok", reworded: "Sounds good." },
+      { original: "send me the file", reworded: "Please send me the file." },
+    ],
+  },
+  {
+    id: "executive",
+    label: "Executive summary",
+    emoji: "📊",
+    description: "Bottom line first, for leadership audiences",
+    role: "You are an expert at transforming workplace messages into crisp, respectful updates for senior leadership.",
+    guidance: [
+      "Lead with the bottom line or the ask",
+      "Neutral, confident, and courteous",
+      "No casual openers or emotional language",
+      "Suitable for executives and stakeholder updates",
+    ],
+    examples: [
+      { original: "need this asap", reworded: "Request: please prioritize this - it is time-critical." },
+      { original: "this is wrong", reworded: "Issue identified: this needs review before we proceed." },
+      { original: "ok", reworded: "Approved." },
+      { original: "send me the file", reworded: "Please share the file when available." },
+    ],
+  },
+  {
+    id: "empathetic",
+    label: "Empathetic",
+    emoji: "💛",
+    description: "Warm, acknowledges the other person's situation",
+    role: "You are an expert at transforming workplace messages to be warm and empathetic toward the recipient.",
+    guidance: [
+      "Acknowledge the other person's effort or workload",
+      "Warm and supportive without being saccharine",
+      "Frame problems as shared rather than blaming",
+      "Keep the request clear",
+    ],
+    examples: [
+      { original: "need this asap", reworded: "I know you've got a lot on your plate - would you be able to prioritize this? It's needed ASAP." },
+      { original: "this is wrong", reworded: "Thanks for working on this! I think something might be off here - could we take a look together?" },
+      { original: "ok", reworded: "Sounds good, thank you!" },
+      { original: "send me the file", reworded: "Whenever you get a moment, could you send me the file? Thanks!" },
+    ],
+  },
+  {
+    id: "assertive",
+    label: "Assertive but kind",
+    emoji: "🎯",
+    description: "Clear and firm while staying respectful",
+    role: "You are an expert at transforming workplace messages to be firm and unambiguous while remaining kind.",
+    guidance: [
+      "State the need and any deadline plainly",
+      "Respectful, never passive-aggressive",
+      "Avoid hedging words that weaken the request",
+      "Suitable for sales follow-ups and escalations",
+    ],
+    examples: [
+      { original: "need this asap", reworded: "I need this as soon as possible - please make it your top priority. Thanks!" },
+      { original: "this is wrong", reworded: "This isn't right yet - please take another look and fix it." },
+      { original: "ok", reworded: "Sounds good." },
+      { original: "send me the file", reworded: "Please send me the file today - thank you!" },
+    ],
+  },
+];
+
+export const DEFAULT_STYLE_IDS = ["casual", "formal"];
+
+const registry = new Map<string, RewordStyle>(
+  BUILT_IN_STYLES.map((style) => [style.id, style])
+);
+
+export function registerStyle(style: RewordStyle): void {
+  registry.set(style.id, style);
+}
+
+export function getStyle(id: string): RewordStyle | undefined {
+  return registry.get(id);
+}
+
+export function listStyles(): RewordStyle[] {
+  return Array.from(registry.values());
+}
+
+// Resolve style ids in the given order, dropping unknown ids and duplicates
+export function resolveStyles(ids: string[]): RewordStyle[] {
+  const seen = new Set<string>();
+  const styles: RewordStyle[] = [];
+  for (const raw of ids) {
+    const id = raw.trim().toLowerCase();
+    const style = registry.get(id);
+    if (style && !seen.has(id)) {
+      seen.add(id);
+      styles.push(style);
+    }
+  }
+  return styles;
+}
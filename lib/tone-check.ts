@@ -0,0 +1,74 @@
+import type { JSONSchema7 } from "ai";
+
+export interface BluntPhrase {
+  phrase: string;
+  reason: string;
+}
+
+// Scores run from 1 (low) to 10 (high)
+export interface ToneCheckResult {
+  harshness: number;
+  clarity: number;
+  urgency: number;
+  bluntPhrases: BluntPhrase[];
+  explanation: string;
+}
+
+// JSON Schema for structured output; a type-only import keeps the ai SDK out of lib/ at runtime
+export const TONE_CHECK_SCHEMA: JSONSchema7 = {
+  type: "object",
+  properties: {
+    harshness: { type: "integer", minimum: 1, maximum: 10 },
+    clarity: { type: "integer", minimum: 1, maximum: 10 },
+    urgency: { type: "integer", minimum: 1, maximum: 10 },
+    bluntPhrases: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          phrase: { type: "string" },
+          reason: { type: "string" },
+        },
+        required: ["phrase", "reason"],
+        additionalProperties: false,
+      },
+    },
+    explanation: { type: "string" },
+  },
+  required: ["harshness", "clarity", "urgency", "bluntPhrases", "explanation"],
+  additionalProperties: false,
+};
+
+export type ToneVerdict = "ok" | "soften" | "harsh";
+
+function clampScore(value: unknown): number {
+  const score = typeof value === "number" && Number.isFinite(value) ? Math.round(value) : 1;
+  return Math.min(10, Math.max(1, score));
+}
+
+// Clamps scores and drops phrases the model invented rather than quoted from the message
+export function normalizeToneCheck(raw: Partial<ToneCheckResult>, message: string): ToneCheckResult {
+  const haystack = message.toLowerCase();
+  const bluntPhrases = (Array.isArray(raw.bluntPhrases) ? raw.bluntPhrases : [])
+    .filter((p) => typeof p?.phrase === "string" && p.phrase.trim() !== "")
+    .filter((p) => haystack.includes(p.phrase.trim().toLowerCase()))
+    .map((p) => ({ phrase: p.phrase.trim(), reason: String(p.reason ?? "").trim() }));
+
+  return {
+    harshness: clampScore(raw.harshness),
+    clarity: clampScore(raw.clarity),
+    urgency: clampScore(raw.urgency),
+    bluntPhrases,
+    explanation: String(raw.explanation ?? "").trim(),
+  };
+}
+
+export function toneVerdict(result: ToneCheckResult): ToneVerdict {
+  if (result.harshness >= 7) {
+    return "harsh";
+  }
+  if (result.harshness >= 4 || result.bluntPhrases.length > 0) {
+    return "soften";
+  }
+  return "ok";
+}
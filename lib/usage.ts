@@ -0,0 +1,162 @@
+import { KeyValueStore } from "./storage.js";
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Monthly totals for one user and model; `month` is "YYYY-MM" (UTC)
+export interface UsageRecord extends TokenUsage {
+  month: string;
+  teamId: string;
+  userId: string;
+  // "provider:model", as chosen by the model router
+  model: string;
+  calls: number;
+  costUsd: number;
+}
+
+export interface UsageSummary extends TokenUsage {
+  calls: number;
+  costUsd: number;
+}
+
+export interface UsageStore {
+  record(month: string, teamId: string, userId: string, model: string, usage: TokenUsage, calls?: number): Promise<void>;
+  list(month: string, teamId: string): Promise<UsageRecord[]>;
+  // The workspace's running total for the month, read from a single key
+  teamTotal(month: string, teamId: string): Promise<UsageSummary>;
+}
+
+// When a workspace goes over its monthly budget, it either falls back to the router's
+// economy model or is refused until the next month
+export interface UsageQuota {
+  monthlyTokens?: number;
+  monthlyCostUsd?: number;
+  onExceeded?: "degrade" | "refuse";
+}
+
+export type QuotaState = "ok" | "degrade" | "refuse";
+
+// USD per million tokens; matched against the model id, so gateway and direct ids share a price.
+// Models without a price (e.g. local ones) cost nothing.
+const MODEL_PRICES: { pattern: RegExp; input: number; output: number }[] = [
+  { pattern: /claude-opus-4/, input: 15, output: 75 },
+  { pattern: /claude-sonnet-4/, input: 3, output: 15 },
+  { pattern: /claude-3-5-haiku|claude-3\.5-haiku/, input: 0.8, output: 4 },
+  { pattern: /claude-3-haiku/, input: 0.25, output: 1.25 },
+];
+
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const price = MODEL_PRICES.find((p) => p.pattern.test(model));
+  if (!price) {
+    return 0;
+  }
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+export function usageMonth(date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function usageKey(month: string, teamId: string, userId: string, model: string): string {
+  return `${month}:${teamId}:${userId}:${model}`;
+}
+
+const EMPTY_SUMMARY: UsageSummary = { inputTokens: 0, outputTokens: 0, calls: 0, costUsd: 0 };
+
+// `totals` keeps one running summary per workspace and month, so quota checks don't scan every record
+export function createUsageStore(store: KeyValueStore<UsageRecord>, totals: KeyValueStore<UsageSummary>): UsageStore {
+  // Records are read-modify-write, so concurrent calls are applied one after another
+  let queue: Promise<void> = Promise.resolve();
+
+  return {
+    record(month, teamId, userId, model, usage, calls = 1) {
+      queue = queue
+        .catch(() => undefined)
+        .then(async () => {
+          const key = usageKey(month, teamId, userId, model);
+          const current = await store.get(key);
+          const costUsd = estimateCost(model, usage);
+          await store.set(key, {
+            month,
+            teamId,
+            userId,
+            model,
+            inputTokens: (current?.inputTokens ?? 0) + usage.inputTokens,
+            outputTokens: (current?.outputTokens ?? 0) + usage.outputTokens,
+            calls: (current?.calls ?? 0) + calls,
+            costUsd: (current?.costUsd ?? 0) + costUsd,
+          });
+
+          const totalKey = `${month}:${teamId}`;
+          const total = (await totals.get(totalKey)) ?? EMPTY_SUMMARY;
+          await totals.set(totalKey, {
+            inputTokens: total.inputTokens + usage.inputTokens,
+            outputTokens: total.outputTokens + usage.outputTokens,
+            calls: total.calls + calls,
+            costUsd: total.costUsd + costUsd,
+          });
+        });
+      return queue;
+    },
+    async list(month, teamId) {
+      // Keys start with month and workspace, so only this workspace's month is read
+      return store.values(`${month}:${teamId}:`);
+    },
+    async teamTotal(month, teamId) {
+      return (await totals.get(`${month}:${teamId}`)) ?? EMPTY_SUMMARY;
+    },
+  };
+}
+
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  return records.reduce<UsageSummary>(
+    (sum, r) => ({
+      inputTokens: sum.inputTokens + r.inputTokens,
+      outputTokens: sum.outputTokens + r.outputTokens,
+      calls: sum.calls + r.calls,
+      costUsd: sum.costUsd + r.costUsd,
+    }),
+    EMPTY_SUMMARY
+  );
+}
+
+export function evaluateQuota(summary: UsageSummary, quota: UsageQuota | undefined): QuotaState {
+  if (!quota) {
+    return "ok";
+  }
+  const overTokens =
+    quota.monthlyTokens !== undefined && summary.inputTokens + summary.outputTokens >= quota.monthlyTokens;
+  const overCost = quota.monthlyCostUsd !== undefined && summary.costUsd >= quota.monthlyCostUsd;
+  if (!overTokens && !overCost) {
+    return "ok";
+  }
+  return quota.onExceeded ?? "degrade";
+}
+
+export interface UsageMeter {
+  add(model: string, usage: Partial<TokenUsage> | undefined): void;
+  // Per-model totals of everything added so far
+  totals(): { model: string; usage: TokenUsage; calls: number }[];
+}
+
+// Collects the token usage of every model call made while handling one request
+export function createUsageMeter(): UsageMeter {
+  const byModel = new Map<string, { usage: TokenUsage; calls: number }>();
+  return {
+    add(model, usage) {
+      const current = byModel.get(model) ?? { usage: { inputTokens: 0, outputTokens: 0 }, calls: 0 };
+      byModel.set(model, {
+        usage: {
+          inputTokens: current.usage.inputTokens + (usage?.inputTokens ?? 0),
+          outputTokens: current.usage.outputTokens + (usage?.outputTokens ?? 0),
+        },
+        calls: current.calls + 1,
+      });
+    },
+    totals() {
+      return Array.from(byModel, ([model, total]) => ({ model, ...total }));
+    },
+  };
+}
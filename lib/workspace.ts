@@ -0,0 +1,44 @@
+import { KeyValueStore } from "./storage.js";
+import { RewordStyle, StyleExample } from "./styles.js";
+import { RateLimit, RateLimitScope } from "./rate-limit.js";
+import { UsageQuota } from "./usage.js";
+
+// Per-workspace (team_id) customization of the prompts and available styles
+export interface WorkspaceConfig {
+  houseRules?: string[];
+  examples?: Record<string, StyleExample[]>;
+  disabledStyles?: string[];
+  // Overrides DEFAULT_RATE_LIMITS, e.g. { "user": { "perMinute": 10 } }
+  rateLimits?: Partial<Record<RateLimitScope, Partial<RateLimit>>>;
+  quota?: UsageQuota;
+}
+
+export interface WorkspaceConfigStore {
+  get(teamId: string): Promise<WorkspaceConfig>;
+  set(teamId: string, config: WorkspaceConfig): Promise<void>;
+}
+
+export function createWorkspaceConfigStore(store: KeyValueStore<WorkspaceConfig>): WorkspaceConfigStore {
+  return {
+    async get(teamId) {
+      return (await store.get(teamId)) ?? {};
+    },
+    async set(teamId, config) {
+      await store.set(teamId, config);
+    },
+  };
+}
+
+export function isStyleEnabled(config: WorkspaceConfig, styleId: string): boolean {
+  return !config.disabledStyles?.includes(styleId);
+}
+
+export function filterEnabledStyles(config: WorkspaceConfig, styles: RewordStyle[]): RewordStyle[] {
+  return styles.filter((style) => isStyleEnabled(config, style.id));
+}
+
+// Returns the style with any workspace example overrides applied
+export function applyWorkspaceExamples(config: WorkspaceConfig, style: RewordStyle): RewordStyle {
+  const examples = config.examples?.[style.id];
+  return examples && examples.length > 0 ? { ...style, examples } : style;
+}
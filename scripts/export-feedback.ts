@@ -0,0 +1,26 @@
+import { join } from "node:path";
+import { writeFile } from "node:fs/promises";
+import { FeedbackRecord, createFeedbackStore, formatFeedbackJsonl } from "../lib/feedback.js";
+import { createFileStore } from "../lib/file-store.js";
+
+// Usage: tsx scripts/export-feedback.ts [output.jsonl]  (prints to stdout without an output path)
+async function exportFeedback() {
+  const dataDir = process.env.DATA_DIR ?? "data";
+  const store = createFeedbackStore(createFileStore<FeedbackRecord>(join(dataDir, "feedback.json")));
+  const records = await store.list();
+  const jsonl = formatFeedbackJsonl(records);
+
+  const outputPath = process.argv[2];
+  if (outputPath) {
+    await writeFile(outputPath, jsonl);
+    const down = records.filter((r) => r.rating === "down").length;
+    console.error(`Exported ${records.length} feedback records (${down} 👎) to ${outputPath}`);
+  } else {
+    process.stdout.write(jsonl);
+  }
+}
+
+exportFeedback().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
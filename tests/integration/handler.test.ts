@@ -4,6 +4,7 @@ import { createHmac } from "crypto";
 // Mock the ai module
 vi.mock("ai", () => ({
   generateText: vi.fn(),
+  streamText: vi.fn(),
   createGateway: vi.fn(() => (model: string) => ({ modelId: model })),
 }));
 
@@ -11,7 +12,7 @@ vi.mock("ai", () => ({
 const mockFetch = vi.fn();
 vi.stubGlobal("fetch", mockFetch);
 
-import { generateText } from "ai";
+import { generateText, streamText } from "ai";
 
 const TEST_SECRET = "test-signing-secret";
 
@@ -20,8 +21,13 @@ function generateSlackSignature(secret: string, timestamp: string, body: string)
   return "v0=" + createHmac("sha256", secret).update(sigBasestring).digest("hex");
 }
 
-function createMockRequest(method: string, body: string, headers: Record<string, string> = {}): Request {
-  return new Request("https://test.vercel.app/api/slack/reword", {
+function createMockRequest(
+  method: string,
+  body: string,
+  headers: Record<string, string> = {},
+  path = "/api/slack/reword"
+): Request {
+  return new Request(`https://test.vercel.app${path}`, {
     method,
     body,
     headers: { "Content-Type": "application/x-www-form-urlencoded", ...headers },
@@ -33,7 +39,7 @@ describe("API Handler", () => {
 
   beforeEach(() => {
     vi.resetAllMocks();
-    mockFetch.mockResolvedValue({ ok: true, status: 200 });
+    mockFetch.mockResolvedValue({ ok: true, status: 200, text: async () => "ok" });
     process.env = { ...originalEnv, SLACK_SIGNING_SECRET: TEST_SECRET };
   });
 
@@ -48,6 +54,12 @@ describe("API Handler", () => {
     expect(response.status).toBe(405);
   });
 
+  it("should fail at import when the model router config is malformed", async () => {
+    process.env.MODEL_ROUTER_JSON = "{";
+    vi.resetModules();
+    await expect(import("../../api/slack/reword.js")).rejects.toThrow("Invalid model router config");
+  });
+
   it("should reject requests without SLACK_SIGNING_SECRET configured", async () => {
     delete process.env.SLACK_SIGNING_SECRET;
     vi.resetModules();
@@ -106,6 +118,15 @@ describe("API Handler", () => {
       experimental_providerMetadata: undefined,
       toJsonResponse: () => new Response(),
     } as never);
+    vi.mocked(streamText).mockImplementation(
+      () =>
+        ({
+          textStream: (async function* () {
+            yield "Could you please help with this?";
+          })(),
+          usage: Promise.resolve({ inputTokens: 10, outputTokens: 10 }),
+        }) as never
+    );
 
     const handler = (await import("../../api/slack/reword.js")).default;
     const timestamp = Math.floor(Date.now() / 1000).toString();
@@ -138,6 +159,53 @@ describe("API Handler", () => {
       "https://hooks.slack.com/test",
       expect.objectContaining({ method: "POST" })
     );
+
+    // The last post replaces the progress message with the versions and their buttons
+    const final = JSON.parse(mockFetch.mock.calls.at(-1)![1].body);
+    expect(final.replace_original).toBe(true);
+    const sections = final.blocks.filter((b: any) => b.block_id?.endsWith("_block"));
+    expect(sections.length).toBeGreaterThan(0);
+    expect(sections[0].text.text).toContain("Could you please help with this?");
+    expect(final.blocks.some((b: any) => b.block_id?.endsWith("_actions"))).toBe(true);
+  });
+
+  it("should handle button clicks on the interactive endpoint", async () => {
+    vi.resetModules();
+    const handler = (await import("../../api/slack/interactive.js")).default;
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const payload = { type: "block_actions", actions: [{ action_id: "copy_casual", value: "Hello there" }] };
+    const body = `payload=${encodeURIComponent(JSON.stringify(payload))}`;
+    const signature = generateSlackSignature(TEST_SECRET, timestamp, body);
+    const req = createMockRequest(
+      "POST",
+      body,
+      { "x-slack-signature": signature, "x-slack-request-timestamp": timestamp },
+      "/api/slack/interactive"
+    );
+
+    const response = await handler(req);
+
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.text).toContain("Hello there");
+  });
+
+  it("should reject interactions without a payload", async () => {
+    vi.resetModules();
+    const handler = (await import("../../api/slack/shortcut.js")).default;
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const body = "text=hi";
+    const signature = generateSlackSignature(TEST_SECRET, timestamp, body);
+    const req = createMockRequest(
+      "POST",
+      body,
+      { "x-slack-signature": signature, "x-slack-request-timestamp": timestamp },
+      "/api/slack/shortcut"
+    );
+
+    const response = await handler(req);
+
+    expect(response.status).toBe(400);
   });
 
   it("should reject expired timestamps", async () => {
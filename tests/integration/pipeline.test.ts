@@ -0,0 +1,417 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createHmac } from "crypto";
+
+vi.mock("ai", () => ({
+  generateText: vi.fn(),
+  streamText: vi.fn(),
+  createGateway: vi.fn(),
+  jsonSchema: vi.fn(),
+  Output: { object: vi.fn() },
+}));
+
+// Slack's Web API and response_url both go through fetch
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+import { createGateway, generateText, streamText } from "ai";
+import { createSlackPipeline, PipelineStores, RequestContext } from "../../lib/pipeline.js";
+import { createMemoryStore } from "../../lib/storage.js";
+import { createPreferencesStore } from "../../lib/preferences.js";
+import { createWorkspaceConfigStore } from "../../lib/workspace.js";
+import { createInstallationStore } from "../../lib/installations.js";
+import { createFeedbackStore } from "../../lib/feedback.js";
+import { createUsageStore, usageMonth } from "../../lib/usage.js";
+import { RewordResult, createResultStore } from "../../lib/results.js";
+import { createConversationStore } from "../../lib/conversations.js";
+import { createRateLimiter } from "../../lib/rate-limit.js";
+import { DEFAULT_ROUTER_CONFIG } from "../../lib/model-router.js";
+import { REWORD_MODAL_CALLBACK_ID } from "../../lib/slack.js";
+
+const SECRET = "test-signing-secret";
+const RESPONSE_URL = "https://hooks.slack.com/actions/T1/1/abc";
+
+const storedResult: RewordResult = {
+  id: "r1",
+  teamId: "T1",
+  userId: "U1",
+  original: "need this asap",
+  versions: { casual: "Need this soon!" },
+  options: {},
+  model: "gateway:anthropic/claude-sonnet-4-20250514",
+  promptVersion: "2026-10-1",
+  attempt: 0,
+  createdAt: "2026-10-01T00:00:00.000Z",
+};
+
+function createStores(): PipelineStores {
+  return {
+    preferences: createPreferencesStore(createMemoryStore()),
+    workspaces: createWorkspaceConfigStore(createMemoryStore()),
+    installations: createInstallationStore(createMemoryStore()),
+    feedback: createFeedbackStore(createMemoryStore()),
+    usage: createUsageStore(createMemoryStore(), createMemoryStore()),
+    results: createResultStore(createMemoryStore()),
+    conversations: createConversationStore(createMemoryStore()),
+    rateLimiter: createRateLimiter(createMemoryStore()),
+  };
+}
+
+function createTestPipeline() {
+  const stores = createStores();
+  const pipeline = createSlackPipeline({
+    env: { SLACK_SIGNING_SECRET: SECRET, SLACK_BOT_TOKEN: "xoxb-bot" },
+    stores,
+    routerConfig: DEFAULT_ROUTER_CONFIG,
+  });
+  return { pipeline, stores };
+}
+
+// Collects background work like the edge runtime's waitUntil; settle() waits for all of it
+function createContext() {
+  const tasks: Promise<unknown>[] = [];
+  const context: RequestContext = { waitUntil: (task) => void tasks.push(task) };
+  return { tasks, context, settle: () => Promise.all(tasks) };
+}
+
+function signedRequest(path: string, body: string, contentType = "application/x-www-form-urlencoded"): Request {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = "v0=" + createHmac("sha256", SECRET).update(`v0:${timestamp}:${body}`).digest("hex");
+  return new Request(`https://reword.test${path}`, {
+    method: "POST",
+    body,
+    headers: {
+      "Content-Type": contentType,
+      "x-slack-signature": signature,
+      "x-slack-request-timestamp": timestamp,
+    },
+  });
+}
+
+function slashCommand(text: string): Request {
+  const body = new URLSearchParams({
+    command: "/reword",
+    text,
+    team_id: "T1",
+    user_id: "U1",
+    channel_id: "C1",
+    response_url: RESPONSE_URL,
+    trigger_id: "trigger",
+  });
+  return signedRequest("/api/slack/reword", body.toString());
+}
+
+function interaction(payload: object, path = "/api/slack/interactive"): Request {
+  return signedRequest(path, `payload=${encodeURIComponent(JSON.stringify(payload))}`);
+}
+
+function blockAction(actionId: string, value: string): Request {
+  return interaction({
+    type: "block_actions",
+    user: { id: "U1" },
+    team: { id: "T1" },
+    trigger_id: "trigger",
+    response_url: RESPONSE_URL,
+    channel: { id: "C1" },
+    actions: [{ action_id: actionId, value }],
+  });
+}
+
+function eventCallback(event: object): Request {
+  const body = { type: "event_callback", team_id: "T1", authorizations: [{ user_id: "UBOT" }], event };
+  return signedRequest("/api/slack/events", JSON.stringify(body), "application/json");
+}
+
+// JSON bodies sent to a URL, e.g. the response_url or "chat.postMessage"
+function postedTo(target: string): any[] {
+  return mockFetch.mock.calls
+    .filter(([url]) => url === target || String(url).endsWith(`/${target}`))
+    .map(([, init]) => JSON.parse(init.body));
+}
+
+function streamOf(text: string) {
+  return {
+    textStream: (async function* () {
+      yield text;
+    })(),
+    usage: Promise.resolve({ inputTokens: 10, outputTokens: 5 }),
+  };
+}
+
+describe("createSlackPipeline", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFetch.mockImplementation(async (url: string) => {
+      const body = /views\.(open|update)$/.test(url) ? { ok: true, view: { id: "V1", hash: "h1" } } : { ok: true };
+      return { ok: true, status: 200, json: async () => body, text: async () => "ok" };
+    });
+    vi.mocked(createGateway).mockReturnValue(((modelId: string) => ({ modelId })) as never);
+    vi.mocked(generateText).mockResolvedValue({ text: "Reworded text", usage: { inputTokens: 10, outputTokens: 5 } } as never);
+    vi.mocked(streamText).mockImplementation(() => streamOf("Reworded text") as never);
+  });
+
+  it("should ack a slash command and finish the reply through waitUntil", async () => {
+    const { pipeline } = createTestPipeline();
+    const { tasks, context, settle } = createContext();
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    vi.mocked(streamText).mockImplementation(
+      () =>
+        ({
+          textStream: (async function* () {
+            await gate;
+            yield "Reworded text";
+          })(),
+          usage: Promise.resolve({ inputTokens: 10, outputTokens: 5 }),
+        }) as never
+    );
+
+    const response = await pipeline.reword(slashCommand("need this asap"), context);
+
+    expect(await response.json()).toMatchObject({ response_type: "ephemeral", text: expect.stringContaining("Rewording") });
+    expect(tasks).toHaveLength(1);
+    expect(postedTo(RESPONSE_URL)).toEqual([]);
+
+    release();
+    await settle();
+    const final = postedTo(RESPONSE_URL).at(-1);
+    expect(final.replace_original).toBe(true);
+    expect(JSON.stringify(final.blocks)).toContain("Reworded text");
+  });
+
+  it("should refuse requests over the rate limit", async () => {
+    const { pipeline, stores } = createTestPipeline();
+    const { context, settle } = createContext();
+    await stores.workspaces.set("T1", { rateLimits: { user: { burst: 1, perMinute: 0 } } });
+
+    await pipeline.reword(slashCommand("need this asap"), context);
+    const response = await pipeline.reword(slashCommand("need this asap"), context);
+    await settle();
+
+    expect((await response.json()).text).toContain("faster than your limit allows");
+  });
+
+  it("should refuse workspaces over a refuse quota", async () => {
+    const { pipeline, stores } = createTestPipeline();
+    await stores.workspaces.set("T1", { quota: { monthlyTokens: 100, onExceeded: "refuse" } });
+    await stores.usage.record(usageMonth(), "T1", "U2", "gateway:test", { inputTokens: 100, outputTokens: 0 });
+
+    const response = await pipeline.reword(slashCommand("need this asap"));
+
+    expect((await response.json()).text).toContain("monthly AI budget");
+    expect(streamText).not.toHaveBeenCalled();
+  });
+
+  it("should switch to the economy model over a degrade quota", async () => {
+    const { pipeline, stores } = createTestPipeline();
+    const { context, settle } = createContext();
+    await stores.workspaces.set("T1", { quota: { monthlyTokens: 100, onExceeded: "degrade" } });
+    await stores.usage.record(usageMonth(), "T1", "U2", "gateway:test", { inputTokens: 100, outputTokens: 0 });
+
+    await pipeline.reword(slashCommand("need this asap"), context);
+    await settle();
+
+    const models = vi.mocked(streamText).mock.calls.map(([request]) => (request.model as { modelId: string }).modelId);
+    expect(models.length).toBeGreaterThan(0);
+    expect(new Set(models)).toEqual(new Set([DEFAULT_ROUTER_CONFIG.economy!.model]));
+  });
+
+  it("should regenerate a stored result and replace the message", async () => {
+    const { pipeline, stores } = createTestPipeline();
+    const { context, settle } = createContext();
+    await stores.results.save(storedResult);
+
+    await pipeline.interactive(blockAction("regenerate_casual", "r1"), context);
+    await settle();
+
+    expect(generateText).toHaveBeenCalledWith(expect.objectContaining({ temperature: 1 }));
+    expect(await stores.results.get("r1")).toMatchObject({ attempt: 1, versions: { casual: "Reworded text" } });
+    const posted = postedTo(RESPONSE_URL).at(-1);
+    expect(posted.replace_original).toBe(true);
+    expect(JSON.stringify(posted.blocks)).toContain("Reworded text");
+  });
+
+  it("should copy a stored version by reference", async () => {
+    const { pipeline, stores } = createTestPipeline();
+    await stores.results.save(storedResult);
+
+    const response = await pipeline.interactive(blockAction("copy_casual", "result:r1:casual"));
+
+    expect((await response.json()).text).toContain("Need this soon!");
+  });
+
+  it("should record feedback on a version", async () => {
+    const { pipeline, stores } = createTestPipeline();
+    const { context, settle } = createContext();
+    await stores.results.save(storedResult);
+
+    await pipeline.interactive(blockAction("feedback_up_casual", "r1:casual"), context);
+    await settle();
+
+    expect(await stores.feedback.list()).toEqual([
+      expect.objectContaining({ resultId: "r1", styleId: "casual", userId: "U1", rating: "up" }),
+    ]);
+    expect(postedTo(RESPONSE_URL).at(-1).text).toBe("Thanks for the feedback!");
+  });
+
+  it("should open the modal editor from the shortcut and send the edited preview", async () => {
+    const { pipeline, stores } = createTestPipeline();
+    const { context, settle } = createContext();
+    const shortcut = {
+      type: "message_action",
+      callback_id: "reword_message",
+      trigger_id: "trigger",
+      response_url: RESPONSE_URL,
+      user: { id: "U1" },
+      team: { id: "T1" },
+      channel: { id: "C1" },
+      message: { text: "need this asap", thread_ts: "1.0" },
+    };
+
+    const opened = await pipeline.shortcut(interaction(shortcut, "/api/slack/shortcut"), context);
+    await settle();
+
+    expect(await opened.json()).toEqual({ ok: true });
+    expect(postedTo("views.open")).toEqual([expect.objectContaining({ trigger_id: "trigger" })]);
+    const update = postedTo("views.update").at(-1);
+    expect(update).toMatchObject({ view_id: "V1", hash: "h1" });
+    expect(JSON.stringify(update.view)).toContain("Reworded text");
+
+    await stores.installations.save({
+      teamId: "T1",
+      users: { U1: { token: "xoxp-user", scopes: ["chat:write"] } },
+      installedAt: "2026-10-01T00:00:00.000Z",
+    });
+    const submitted = await pipeline.interactive(
+      interaction({
+        type: "view_submission",
+        user: { id: "U1" },
+        team: { id: "T1" },
+        trigger_id: "trigger",
+        view: {
+          id: "V1",
+          hash: "h1",
+          callback_id: REWORD_MODAL_CALLBACK_ID,
+          private_metadata: JSON.stringify({ teamId: "T1", channel: "C1", threadTs: "1.0", revision: 1 }),
+          state: { values: { preview_1: { preview_input: { value: "Edited text" } } } },
+        },
+      })
+    );
+
+    expect(await submitted.json()).toEqual({ response_action: "clear" });
+    expect(postedTo("chat.postMessage")).toEqual([{ channel: "C1", text: "Edited text", thread_ts: "1.0" }]);
+    const sendCall = mockFetch.mock.calls.find(([url]) => String(url).endsWith("/chat.postMessage"))!;
+    expect(sendCall[1].headers.Authorization).toBe("Bearer xoxp-user");
+  });
+
+  it("should bump the modal preview revision from metadata when regenerating after an error", async () => {
+    const { pipeline } = createTestPipeline();
+    const { context, settle } = createContext();
+
+    // An errored modal has no preview block to read the revision from
+    await pipeline.interactive(
+      interaction({
+        type: "block_actions",
+        user: { id: "U1" },
+        team: { id: "T1" },
+        trigger_id: "trigger",
+        actions: [{ action_id: "modal_regenerate" }],
+        view: {
+          id: "V1",
+          hash: "h1",
+          callback_id: REWORD_MODAL_CALLBACK_ID,
+          private_metadata: JSON.stringify({ teamId: "T1", channel: "C1", revision: 2 }),
+          state: {
+            values: {
+              original: { original_input: { value: "need this asap" } },
+              style: { style_select: { selected_option: { value: "casual" } } },
+            },
+          },
+        },
+      }),
+      context
+    );
+    await settle();
+
+    const update = postedTo("views.update").at(-1);
+    expect(JSON.parse(update.view.private_metadata)).toMatchObject({ revision: 3 });
+    expect(update.view.blocks.find((b: any) => b.block_id === "preview_3").element.initial_value).toBe("Reworded text");
+  });
+
+  it("should reply to a mention in its thread without Send buttons", async () => {
+    const { pipeline } = createTestPipeline();
+    const { context, settle } = createContext();
+
+    const response = await pipeline.events(
+      eventCallback({ type: "app_mention", user: "U1", text: "<@UBOT>\n> need this asap", ts: "1.1", channel: "C1" }),
+      context
+    );
+    await settle();
+
+    expect(response.status).toBe(200);
+    const [reply] = postedTo("chat.postMessage");
+    expect(reply).toMatchObject({ channel: "C1", thread_ts: "1.1" });
+    const actionIds = reply.blocks
+      .filter((b: any) => b.type === "actions")
+      .flatMap((b: any) => b.elements.map((e: any) => e.action_id));
+    expect(actionIds).toContain("regenerate_casual");
+    expect(actionIds.some((actionId: string) => actionId.startsWith("send_"))).toBe(false);
+  });
+
+  it("should refine the previous draft in a DM", async () => {
+    const { pipeline, stores } = createTestPipeline();
+    const { context, settle } = createContext();
+    await stores.conversations.set("T1", "D1", {
+      original: "need this asap",
+      versions: { casual: "Need this soon!" },
+      options: {},
+      updatedAt: "2026-10-01T00:00:00.000Z",
+    });
+
+    await pipeline.events(
+      eventCallback({ type: "message", channel_type: "im", user: "U1", text: "more formal", ts: "2.0", channel: "D1" }),
+      context
+    );
+    await settle();
+
+    expect(generateText).toHaveBeenCalledWith(
+      expect.objectContaining({ prompt: expect.stringContaining("according to this feedback: more formal") })
+    );
+    expect(await stores.conversations.get("T1", "D1")).toMatchObject({ versions: { casual: "Reworded text" } });
+    const [reply] = postedTo("chat.postMessage");
+    expect(reply.channel).toBe("D1");
+    expect(JSON.stringify(reply.blocks)).toContain("Reworded text");
+  });
+
+  it("should keep the previous text of a style whose refinement failed", async () => {
+    const { pipeline, stores } = createTestPipeline();
+    const { context, settle } = createContext();
+    await stores.conversations.set("T1", "D1", {
+      original: "need this asap",
+      versions: { casual: "Need this soon!", formal: "I would appreciate this soon." },
+      options: {},
+      updatedAt: "2026-10-01T00:00:00.000Z",
+    });
+    vi.mocked(generateText).mockImplementation((async (request: { prompt: string }) => {
+      if (request.prompt.includes("I would appreciate this soon.")) {
+        throw new Error("overloaded");
+      }
+      return { text: "Reworded text", usage: { inputTokens: 10, outputTokens: 5 } };
+    }) as never);
+
+    await pipeline.events(
+      eventCallback({ type: "message", channel_type: "im", user: "U1", text: "shorter", ts: "2.0", channel: "D1" }),
+      context
+    );
+    await settle();
+
+    expect(await stores.conversations.get("T1", "D1")).toMatchObject({
+      versions: { casual: "Reworded text", formal: "I would appreciate this soon." },
+    });
+    const [reply] = postedTo("chat.postMessage");
+    expect(reply.text).not.toContain("Error");
+    expect(reply.blocks.map((b: any) => b.block_id)).toContain("casual_block");
+    const formal = reply.blocks.find((b: any) => b.block_id === "formal_block");
+    expect(formal.text.text).toContain("Unavailable");
+    expect(formal.accessory.action_id).toBe("regenerate_formal");
+  });
+});
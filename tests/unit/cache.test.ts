@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryStore } from "../../lib/storage.js";
+import {
+  CacheEntry,
+  VersionCacheKey,
+  cacheSettingsFromEnv,
+  createVersionCache,
+  createVersionCacheKey,
+  normalizeMessage,
+} from "../../lib/cache.js";
+
+const key: VersionCacheKey = {
+  message: "need this asap",
+  styleId: "casual",
+  promptVersion: "2026-10-3",
+  model: "gateway:anthropic/claude-sonnet-4-20250514",
+  systemPrompt: "You are a casual rewriter.",
+};
+
+describe("cacheSettingsFromEnv", () => {
+  it("should default to a 24 hour memory cache", () => {
+    expect(cacheSettingsFromEnv({})).toEqual({ backend: "memory", ttlMs: 24 * 60 * 60 * 1000, maxEntries: 5000 });
+  });
+
+  it("should read the backend and limits", () => {
+    expect(
+      cacheSettingsFromEnv({ REWORD_CACHE: "file", REWORD_CACHE_TTL_HOURS: "1", REWORD_CACHE_MAX_ENTRIES: "10" })
+    ).toEqual({ backend: "file", ttlMs: 60 * 60 * 1000, maxEntries: 10 });
+    expect(cacheSettingsFromEnv({ REWORD_CACHE: "redis" }).backend).toBe("memory");
+  });
+});
+
+describe("normalizeMessage", () => {
+  it("should ignore extra whitespace", () => {
+    expect(normalizeMessage("  Need this\n  ASAP ")).toBe("Need this ASAP");
+  });
+
+  it("should keep case and unify the Unicode form", () => {
+    expect(normalizeMessage("Need this ASAP")).not.toBe(normalizeMessage("need this asap"));
+    expect(normalizeMessage("cafe\u0301")).toBe("caf\u00e9");
+  });
+});
+
+describe("createVersionCacheKey", () => {
+  it("should match for messages that normalize to the same text", async () => {
+    expect(await createVersionCacheKey({ ...key, message: " need  this\nasap " })).toBe(await createVersionCacheKey(key));
+  });
+
+  it("should differ by style, prompt version, model and system prompt", async () => {
+    const base = await createVersionCacheKey(key);
+    const variants = await Promise.all([
+      createVersionCacheKey({ ...key, styleId: "formal" }),
+      createVersionCacheKey({ ...key, promptVersion: "2026-10-4" }),
+      createVersionCacheKey({ ...key, model: "gateway:anthropic/claude-opus-4-20250514" }),
+      createVersionCacheKey({ ...key, systemPrompt: "You are a casual rewriter. Answer in German." }),
+    ]);
+
+    expect(new Set([base, ...variants]).size).toBe(5);
+  });
+});
+
+describe("createVersionCache", () => {
+  it("should return cached versions until they expire", async () => {
+    let now = 1000;
+    const store = createMemoryStore<CacheEntry>();
+    const cache = createVersionCache(store, { ttlMs: 500, now: () => now });
+
+    expect(await cache.get(key)).toBeUndefined();
+    await cache.set(key, "Hey, could you get to this soon?");
+    expect(await cache.get({ ...key, message: "need this  asap" })).toBe("Hey, could you get to this soon?");
+
+    now = 1500;
+    expect(await cache.get(key)).toBeUndefined();
+    expect(await store.values()).toEqual([]);
+  });
+
+  it("should leave size limits to the store", async () => {
+    const cache = createVersionCache(createMemoryStore<CacheEntry>({ maxEntries: 1 }), { ttlMs: 1000 });
+    await cache.set(key, "casual");
+    await cache.set({ ...key, styleId: "formal" }, "formal");
+
+    expect(await cache.get(key)).toBeUndefined();
+    expect(await cache.get({ ...key, styleId: "formal" })).toBe("formal");
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { createCombinedSchema, parseCombinedVersions, resolveGenerationMode } from "../../lib/combined.js";
+
+describe("resolveGenerationMode", () => {
+  it("should default to per-style calls", () => {
+    expect(resolveGenerationMode(undefined)).toBe("per-style");
+    expect(resolveGenerationMode("bogus")).toBe("per-style");
+    expect(resolveGenerationMode(" Combined ")).toBe("combined");
+  });
+});
+
+describe("createCombinedSchema", () => {
+  it("should require a version for every style", () => {
+    const schema = createCombinedSchema(["casual", "formal"]) as any;
+
+    expect(schema.properties.versions.required).toEqual(["casual", "formal"]);
+    expect(Object.keys(schema.properties.versions.properties)).toEqual(["casual", "formal"]);
+    expect(schema.required).toEqual(["versions"]);
+  });
+});
+
+describe("parseCombinedVersions", () => {
+  it("should return the versions and metadata", () => {
+    const parsed = parseCombinedVersions(
+      {
+        versions: { casual: " Hey! ", formal: "Hello." },
+        detectedLanguage: "English",
+        changedPhrases: ["asap", 42],
+      },
+      ["casual", "formal"]
+    );
+
+    expect(parsed).toEqual({
+      versions: { casual: "Hey!", formal: "Hello." },
+      detectedLanguage: "English",
+      changedPhrases: ["asap"],
+    });
+  });
+
+  it("should throw when a style is missing or empty", () => {
+    expect(() => parseCombinedVersions({ versions: { casual: "Hey!" } }, ["casual", "formal"])).toThrow(
+      'missing the "formal" version'
+    );
+    expect(() => parseCombinedVersions({ versions: { casual: " " } }, ["casual"])).toThrow("casual");
+    expect(() => parseCombinedVersions(undefined, ["casual"])).toThrow();
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { parseRewordCommand } from "../../lib/commands.js";
+
+describe("parseRewordCommand", () => {
+  it("should treat plain text as a message to reword", () => {
+    const command = parseRewordCommand("need this asap");
+
+    expect(command).toEqual({ type: "reword", message: "need this asap", options: {} });
+  });
+
+  it("should return help for empty text", () => {
+    expect(parseRewordCommand("   ")).toEqual({ type: "help" });
+  });
+
+  it("should recognize the help and styles subcommands", () => {
+    expect(parseRewordCommand("help")).toEqual({ type: "help" });
+    expect(parseRewordCommand("Styles")).toEqual({ type: "styles" });
+    expect(parseRewordCommand("usage")).toEqual({ type: "usage" });
+  });
+
+  it("should reword messages that merely start with a subcommand word", () => {
+    const command = parseRewordCommand("help me with this now");
+
+    expect(command).toMatchObject({ type: "reword", message: "help me with this now" });
+  });
+
+  it("should pass settings arguments through", () => {
+    expect(parseRewordCommand("settings style formal")).toEqual({
+      type: "settings",
+      args: ["style", "formal"],
+    });
+  });
+
+  it("should accept key=value settings arguments", () => {
+    expect(parseRewordCommand("settings length=short")).toEqual({
+      type: "settings",
+      args: ["length", "short"],
+    });
+  });
+
+  it("should reword messages that start with settings but are not a settings command", () => {
+    const command = parseRewordCommand("settings page is broken, fix it asap");
+
+    expect(command).toMatchObject({ type: "reword", message: "settings page is broken, fix it asap" });
+  });
+
+  it("should parse --flag=value options", () => {
+    const command = parseRewordCommand("--style=formal,concise --length=short fix this");
+
+    expect(command).toEqual({
+      type: "reword",
+      message: "fix this",
+      options: { styles: ["formal", "concise"], length: "shorter" },
+    });
+  });
+
+  it("should parse --flag value options and quoted values", () => {
+    const command = parseRewordCommand('--audience "the client" --lang German send the report');
+
+    expect(command).toEqual({
+      type: "reword",
+      message: "send the report",
+      options: { audience: "the client", language: "German" },
+    });
+  });
+
+  it("should stop parsing flags at --", () => {
+    const command = parseRewordCommand("--style=casual -- --force push it");
+
+    expect(command).toMatchObject({ message: "--force push it", options: { styles: ["casual"] } });
+  });
+
+  it("should only parse flags before the message", () => {
+    const command = parseRewordCommand("run it with --style=formal");
+
+    expect(command).toEqual({ type: "reword", message: "run it with --style=formal", options: {} });
+  });
+
+  it("should reject unknown options", () => {
+    const command = parseRewordCommand("--tone=nice fix this");
+
+    expect(command.type).toBe("invalid");
+    expect(command.type === "invalid" && command.error).toContain("--tone");
+  });
+
+  it("should reject unknown styles", () => {
+    const command = parseRewordCommand("--style=pirate fix this");
+
+    expect(command.type).toBe("invalid");
+    expect(command.type === "invalid" && command.error).toContain("pirate");
+  });
+
+  it("should reject invalid lengths", () => {
+    const command = parseRewordCommand("--length=huge fix this");
+
+    expect(command.type).toBe("invalid");
+  });
+
+  it("should reject options without a message", () => {
+    const command = parseRewordCommand("--style=formal");
+
+    expect(command.type).toBe("invalid");
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryStore } from "../../lib/storage.js";
+import {
+  ConversationState,
+  classifyDirectMessage,
+  createConversationStore,
+  isRefinement,
+} from "../../lib/conversations.js";
+
+const state: ConversationState = {
+  original: "fix this",
+  versions: { casual: "Hey, could you fix this?" },
+  options: {},
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+describe("createConversationStore", () => {
+  it("should keep state per team and DM channel", async () => {
+    const store = createConversationStore(createMemoryStore<ConversationState>());
+    await store.set("T1", "D1", state);
+
+    expect(await store.get("T1", "D1")).toEqual(state);
+    expect(await store.get("T1", "D2")).toBeUndefined();
+    expect(await store.get("T2", "D1")).toBeUndefined();
+  });
+
+  it("should clear state", async () => {
+    const store = createConversationStore(createMemoryStore<ConversationState>());
+    await store.set("T1", "D1", state);
+    await store.clear("T1", "D1");
+
+    expect(await store.get("T1", "D1")).toBeUndefined();
+  });
+});
+
+describe("isRefinement", () => {
+  it.each(["more formal", "Shorter", "make it a bit less stiff", "even friendlier!", "try again", "remove the greeting"])(
+    "should treat %j as a refinement",
+    (text) => {
+      expect(isRefinement(text)).toBe(true);
+    }
+  );
+
+  it.each(["fix the build", "more people need access to the dashboard by friday please", "why is this broken"])(
+    "should treat %j as a new draft",
+    (text) => {
+      expect(isRefinement(text)).toBe(false);
+    }
+  );
+});
+
+describe("classifyDirectMessage", () => {
+  it("should refine only when there is a previous result", () => {
+    expect(classifyDirectMessage("more formal", true)).toEqual({ type: "refine", instruction: "more formal" });
+    expect(classifyDirectMessage("more formal", false)).toEqual({ type: "reword", message: "more formal" });
+  });
+
+  it("should treat other messages as new drafts", () => {
+    expect(classifyDirectMessage("  need this asap ", true)).toEqual({ type: "reword", message: "need this asap" });
+  });
+
+  it("should recognize help and reset", () => {
+    expect(classifyDirectMessage("help", true)).toEqual({ type: "help" });
+    expect(classifyDirectMessage("Reset", true)).toEqual({ type: "reset" });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { extractEntities, findMissingEntities, repairEntities } from "../../lib/entities.js";
+
+describe("extractEntities", () => {
+  it("should extract Slack mentions, channels, special mentions and links", () => {
+    const entities = extractEntities(
+      "<@U123|jane> <!here> see <#C456|deploys> and <https://example.com/docs|the docs>"
+    );
+
+    expect(entities.map((e) => [e.kind, e.id, e.label])).toEqual([
+      ["user", "U123", "jane"],
+      ["special", "here", undefined],
+      ["channel", "C456", "deploys"],
+      ["link", "https://example.com/docs", "the docs"],
+    ]);
+  });
+
+  it("should extract code, bare URLs, emoji, tickets and numbers", () => {
+    const entities = extractEntities(
+      "fix `npm test` for PROJ-42 and #17 by 3pm, see https://ci.example.com/run/99. :fire: 1,500 errors"
+    );
+
+    expect(entities.map((e) => [e.kind, e.raw])).toEqual([
+      ["code", "`npm test`"],
+      ["url", "https://ci.example.com/run/99"],
+      ["emoji", ":fire:"],
+      ["ticket", "PROJ-42"],
+      ["ticket", "#17"],
+      ["number", "3"],
+      ["number", "1,500"],
+    ]);
+  });
+
+  it("should not pick numbers out of ids and URLs", () => {
+    const entities = extractEntities("<@U123> check <https://example.com/42>");
+
+    expect(entities.some((e) => e.kind === "number")).toBe(false);
+  });
+
+  it("should extract mrkdwn placeholders", () => {
+    const entities = extractEntities("please run [[P1]] then\n[[P2]]");
+
+    expect(entities.map((e) => [e.kind, e.raw])).toEqual([
+      ["placeholder", "[[P1]]"],
+      ["placeholder", "[[P2]]"],
+    ]);
+    expect(findMissingEntities(entities, "Could you run [[P1]]?").map((e) => e.raw)).toEqual(["[[P2]]"]);
+  });
+
+  it("should drop duplicates", () => {
+    expect(extractEntities("<@U1> and <@U1> again")).toHaveLength(1);
+  });
+});
+
+describe("findMissingEntities", () => {
+  it("should accept Slack entities whose label changed", () => {
+    const entities = extractEntities("<#C456|deploys> <https://example.com|docs>");
+
+    expect(findMissingEntities(entities, "<#C456> and <https://example.com|the documentation>")).toEqual([]);
+  });
+
+  it("should report dropped or altered entities", () => {
+    const entities = extractEntities("<@U123> fix PROJ-42 by 5 :fire:");
+
+    const missing = findMissingEntities(entities, "Hey Jane, could you fix PROJ-421 by 15?");
+    expect(missing.map((e) => e.raw)).toEqual(["<@U123>", ":fire:", "PROJ-42", "5"]);
+  });
+});
+
+describe("repairEntities", () => {
+  it("should restore mentions rewritten into plain names", () => {
+    const entities = extractEntities("<@U123|jane> <!here> please check <#C456|deploys>");
+
+    expect(repairEntities("@here, @jane could you check #deploys?", entities)).toBe(
+      "<!here>, <@U123|jane> could you check <#C456|deploys>?"
+    );
+  });
+
+  it("should restore raw user ids and link labels", () => {
+    const entities = extractEntities("<@U123> read <https://example.com|the docs>");
+
+    expect(repairEntities("Hey @U123, could you read the docs?", entities)).toBe(
+      "Hey <@U123>, could you read <https://example.com|the docs>?"
+    );
+  });
+
+  it("should leave text alone when nothing is missing or nothing can be repaired", () => {
+    const entities = extractEntities("<@U123> fix `build.sh`");
+
+    expect(repairEntities("<@U123> please fix `build.sh`", entities)).toBe("<@U123> please fix `build.sh`");
+    expect(repairEntities("Could you fix the build script?", entities)).toBe("Could you fix the build script?");
+  });
+});
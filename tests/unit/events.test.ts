@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { extractQuotedText, isThreadReply, stripBotMention } from "../../lib/events.js";
+
+describe("stripBotMention", () => {
+  it("should remove the bot's mention", () => {
+    expect(stripBotMention("<@UBOT> please help", "UBOT")).toBe("please help");
+  });
+
+  it("should keep mentions of other users", () => {
+    expect(stripBotMention("<@UBOT> tell <@U123> to fix it", "UBOT")).toBe("tell <@U123> to fix it");
+  });
+
+  it("should remove the leading mention when the bot id is unknown", () => {
+    expect(stripBotMention("<@UBOT|reword> please help")).toBe("please help");
+  });
+});
+
+describe("extractQuotedText", () => {
+  it("should extract escaped block quotes", () => {
+    expect(extractQuotedText("can you soften this?\n&gt; fix this now\n&gt; no excuses")).toBe(
+      "fix this now\nno excuses"
+    );
+  });
+
+  it("should extract text in double quotes", () => {
+    expect(extractQuotedText('how about "need this asap"')).toBe("need this asap");
+    expect(extractQuotedText("how about “need this asap”")).toBe("need this asap");
+  });
+
+  it("should return undefined without a quote", () => {
+    expect(extractQuotedText("can you reword this?")).toBeUndefined();
+    expect(extractQuotedText("")).toBeUndefined();
+  });
+});
+
+describe("isThreadReply", () => {
+  it("should detect replies inside a thread", () => {
+    expect(isThreadReply({ ts: "2.0", thread_ts: "1.0" })).toBe(true);
+  });
+
+  it("should treat top-level and parent messages as not replies", () => {
+    expect(isThreadReply({ ts: "1.0" })).toBe(false);
+    expect(isThreadReply({ ts: "1.0", thread_ts: "1.0" })).toBe(false);
+  });
+});
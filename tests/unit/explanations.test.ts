@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { MAX_EXPLAINED_CHANGES, normalizeExplanations } from "../../lib/explanations.js";
+
+describe("normalizeExplanations", () => {
+  it("should keep changes quoted from the message", () => {
+    const changes = normalizeExplanations(
+      {
+        changes: [
+          { original: " No excuses ", revised: "Let's find a way", reason: "Reads as accusatory" },
+          { original: "you idiot", revised: "", reason: "Not in the message" },
+          { original: "", revised: "Thanks!", reason: "Ends on a warm note" },
+        ],
+      },
+      "I need this by EOD, no excuses"
+    );
+
+    expect(changes).toEqual([
+      { original: "No excuses", revised: "Let's find a way", reason: "Reads as accusatory" },
+      { original: "", revised: "Thanks!", reason: "Ends on a warm note" },
+    ]);
+  });
+
+  it("should drop changes without a reason or any text", () => {
+    const changes = normalizeExplanations(
+      {
+        changes: [
+          { original: "asap", revised: "soon", reason: " " },
+          { original: "", revised: "", reason: "Nothing changed" },
+        ],
+      },
+      "need it asap"
+    );
+
+    expect(changes).toEqual([]);
+  });
+
+  it("should cap the number of changes", () => {
+    const many = Array.from({ length: 12 }, (_, i) => ({ original: "", revised: `p${i}`, reason: "why" }));
+
+    expect(normalizeExplanations({ changes: many }, "ok")).toHaveLength(MAX_EXPLAINED_CHANGES);
+  });
+
+  it("should handle malformed output", () => {
+    expect(normalizeExplanations(undefined, "ok")).toEqual([]);
+    expect(normalizeExplanations({ changes: "nope" }, "ok")).toEqual([]);
+  });
+});
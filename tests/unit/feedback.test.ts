@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryStore } from "../../lib/storage.js";
+import {
+  FeedbackRecord,
+  createFeedbackStore,
+  decodeFeedbackValue,
+  encodeFeedbackValue,
+  formatFeedbackJsonl,
+  hashMessage,
+} from "../../lib/feedback.js";
+
+const record: FeedbackRecord = {
+  resultId: "r1",
+  teamId: "T1",
+  userId: "U1",
+  styleId: "casual",
+  model: "anthropic/claude-sonnet-4.5",
+  promptVersion: "2026-10-1",
+  messageHash: "abc",
+  rating: "up",
+  createdAt: "2026-01-02T00:00:00.000Z",
+};
+
+describe("createFeedbackStore", () => {
+  it("should replace an earlier rating of the same version by the same user", async () => {
+    const store = createFeedbackStore(createMemoryStore<FeedbackRecord>());
+    await store.record(record);
+    await store.record({ ...record, rating: "down", comment: "too chirpy" });
+
+    expect(await store.get("r1", "casual", "U1")).toMatchObject({ rating: "down", comment: "too chirpy" });
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it("should list records oldest first", async () => {
+    const store = createFeedbackStore(createMemoryStore<FeedbackRecord>());
+    await store.record({ ...record, userId: "U2", createdAt: "2026-01-03T00:00:00.000Z" });
+    await store.record(record);
+
+    expect((await store.list()).map((r) => r.userId)).toEqual(["U1", "U2"]);
+  });
+});
+
+describe("hashMessage", () => {
+  it("should return a hex SHA-256 digest", async () => {
+    expect(await hashMessage("abc")).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+  });
+});
+
+describe("encodeFeedbackValue / decodeFeedbackValue", () => {
+  it("should round-trip the result and style ids", () => {
+    expect(decodeFeedbackValue(encodeFeedbackValue("r1", "casual"))).toEqual({ resultId: "r1", styleId: "casual" });
+  });
+
+  it("should reject malformed values", () => {
+    expect(decodeFeedbackValue("r1")).toBeNull();
+    expect(decodeFeedbackValue("r1:")).toBeNull();
+  });
+});
+
+describe("formatFeedbackJsonl", () => {
+  it("should emit one JSON object per line", () => {
+    const jsonl = formatFeedbackJsonl([record, { ...record, rating: "down" }]);
+
+    const lines = jsonl.trimEnd().split("\n");
+    expect(lines.map((line) => JSON.parse(line).rating)).toEqual(["up", "down"]);
+    expect(jsonl.endsWith("\n")).toBe(true);
+  });
+
+  it("should return an empty string without records", () => {
+    expect(formatFeedbackJsonl([])).toBe("");
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryStore } from "../../lib/storage.js";
+import { Installation, createInstallationStore } from "../../lib/installations.js";
+
+function installation(overrides: Partial<Installation> = {}): Installation {
+  return {
+    teamId: "T1",
+    teamName: "Acme",
+    botToken: "xoxb-1",
+    botUserId: "UBOT",
+    users: { U1: { token: "xoxp-1", scopes: ["chat:write"] } },
+    installedAt: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("createInstallationStore", () => {
+  it("should look up bot and user tokens by team", async () => {
+    const store = createInstallationStore(createMemoryStore<Installation>());
+    await store.save(installation());
+
+    expect(await store.getBotToken("T1")).toBe("xoxb-1");
+    expect(await store.getUserToken("T1", "U1")).toBe("xoxp-1");
+    expect(await store.getUserToken("T1", "U2")).toBeUndefined();
+    expect(await store.getBotToken("T2")).toBeUndefined();
+  });
+
+  it("should keep existing user tokens when another user authorizes", async () => {
+    const store = createInstallationStore(createMemoryStore<Installation>());
+    await store.save(installation());
+    await store.save(
+      installation({ botToken: "xoxb-2", users: { U2: { token: "xoxp-2", scopes: ["chat:write"] } } })
+    );
+
+    expect(await store.getBotToken("T1")).toBe("xoxb-2");
+    expect(await store.getUserToken("T1", "U1")).toBe("xoxp-1");
+    expect(await store.getUserToken("T1", "U2")).toBe("xoxp-2");
+  });
+
+  it("should delete a workspace on uninstall", async () => {
+    const store = createInstallationStore(createMemoryStore<Installation>());
+    await store.save(installation());
+    await store.delete("T1");
+
+    expect(await store.get("T1")).toBeUndefined();
+  });
+
+  it("should drop revoked user tokens", async () => {
+    const store = createInstallationStore(createMemoryStore<Installation>());
+    await store.save(installation());
+    await store.revokeTokens("T1", { userIds: ["U1"] });
+
+    expect(await store.getUserToken("T1", "U1")).toBeUndefined();
+    expect(await store.getBotToken("T1")).toBe("xoxb-1");
+  });
+
+  it("should drop the bot token when the bot user is revoked", async () => {
+    const store = createInstallationStore(createMemoryStore<Installation>());
+    await store.save(installation());
+    await store.revokeTokens("T1", { botUserIds: ["UBOT"] });
+
+    expect(await store.getBotToken("T1")).toBeUndefined();
+    expect(await store.getUserToken("T1", "U1")).toBe("xoxp-1");
+  });
+
+  it("should ignore revocations for unknown workspaces", async () => {
+    const store = createInstallationStore(createMemoryStore<Installation>());
+    await store.revokeTokens("T9", { userIds: ["U1"] });
+
+    expect(await store.get("T9")).toBeUndefined();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+import { createKvStore, kvConfigFromEnv } from "../../lib/kv-store.js";
+
+const config = { url: "https://kv.example.com", token: "kv-token" };
+
+function jsonResponse(body: unknown, status = 200) {
+  return { ok: status < 400, status, json: async () => body };
+}
+
+function sentCommands() {
+  return mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body));
+}
+
+describe("kvConfigFromEnv", () => {
+  it("should need both the URL and the token", () => {
+    expect(kvConfigFromEnv({ KV_REST_API_URL: "https://kv", KV_REST_API_TOKEN: "t" })).toEqual({
+      url: "https://kv",
+      token: "t",
+    });
+    expect(kvConfigFromEnv({ KV_REST_API_URL: "https://kv" })).toBeUndefined();
+  });
+});
+
+describe("createKvStore", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should store JSON under the prefix with a bearer token", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ result: "OK" }));
+    const store = createKvStore<{ n: number }>(config, "results:", { ttlSeconds: 3600 });
+
+    await store.set("r1", { n: 1 });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      "https://kv.example.com",
+      expect.objectContaining({ headers: expect.objectContaining({ Authorization: "Bearer kv-token" }) })
+    );
+    expect(sentCommands()).toEqual([["SET", "results:r1", '{"n":1}', "EX", 3600]]);
+  });
+
+  it("should parse stored values and miss on null", async () => {
+    const store = createKvStore<{ n: number }>(config, "results:");
+    mockFetch.mockResolvedValueOnce(jsonResponse({ result: '{"n":2}' }));
+    mockFetch.mockResolvedValueOnce(jsonResponse({ result: null }));
+
+    expect(await store.get("r1")).toEqual({ n: 2 });
+    expect(await store.get("r2")).toBeUndefined();
+  });
+
+  it("should list the values under the prefix", async () => {
+    const store = createKvStore<{ n: number }>(config, "usage:");
+    mockFetch.mockResolvedValueOnce(jsonResponse({ result: ["usage:a", "usage:b"] }));
+    mockFetch.mockResolvedValueOnce(jsonResponse({ result: ['{"n":1}', null] }));
+
+    expect(await store.values()).toEqual([{ n: 1 }]);
+    expect(sentCommands()).toEqual([
+      ["KEYS", "usage:*"],
+      ["MGET", "usage:a", "usage:b"],
+    ]);
+  });
+
+  it("should only ask for keys under a key prefix", async () => {
+    const store = createKvStore<{ n: number }>(config, "usage:");
+    mockFetch.mockResolvedValueOnce(jsonResponse({ result: [] }));
+
+    expect(await store.values("2026-10:T1:")).toEqual([]);
+    expect(sentCommands()).toEqual([["KEYS", "usage:2026-10:T1:*"]]);
+  });
+
+  it("should throw on errors", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ error: "WRONGPASS" }, 401));
+    const store = createKvStore(config, "results:");
+
+    await expect(store.delete("r1")).rejects.toThrow("KV DEL failed: WRONGPASS");
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { detectLanguage, getLanguage, resolveLanguage } from "../../lib/language.js";
+
+describe("detectLanguage", () => {
+  it("should detect common European languages", () => {
+    expect(detectLanguage("Kannst du mir bitte die Datei schicken? Ich brauche sie heute.")?.code).toBe("de");
+    expect(detectLanguage("Pourquoi ce n'est pas encore fait ? Je veux le rapport pour demain.")?.code).toBe("fr");
+    expect(detectLanguage("Necesito esto ahora, no mañana.")?.code).toBe("es");
+    expect(detectLanguage("I need this done by EOD, no excuses")?.code).toBe("en");
+  });
+
+  it("should detect languages from their script", () => {
+    expect(detectLanguage("これを今日中に直してください")).toEqual({ code: "ja", name: "Japanese" });
+    expect(detectLanguage("Сделай это срочно")).toEqual({ code: "ru", name: "Russian" });
+  });
+
+  it("should ignore mentions, links and code", () => {
+    expect(detectLanguage("<@U123> <https://example.com|the docs> `die das der` fix it and ship it")?.code).toBe("en");
+  });
+
+  it("should stay undetected when unsure", () => {
+    expect(detectLanguage("ok")).toBeUndefined();
+    expect(detectLanguage("")).toBeUndefined();
+    expect(detectLanguage(":thumbsup:")).toBeUndefined();
+  });
+});
+
+describe("resolveLanguage", () => {
+  it("should resolve names, native names and codes", () => {
+    expect(resolveLanguage("German")?.code).toBe("de");
+    expect(resolveLanguage("deutsch")?.code).toBe("de");
+    expect(resolveLanguage(" FR ")?.code).toBe("fr");
+    expect(resolveLanguage("Klingon")).toBeUndefined();
+  });
+});
+
+describe("getLanguage", () => {
+  it("should include style-specific guidance", () => {
+    expect(getLanguage("de")?.styleGuidance?.formal?.join(" ")).toContain("Sie");
+  });
+});
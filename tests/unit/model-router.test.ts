@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_ROUTER_CONFIG,
+  createModelResolver,
+  describeRoute,
+  parseRouterConfig,
+  routeModel,
+  routerConfigFromEnv,
+} from "../../lib/model-router.js";
+
+const CONFIG = JSON.stringify({
+  providers: {
+    gateway: { type: "gateway" },
+    local: { type: "openai-compatible", baseURL: "http://localhost:11434/v1" },
+  },
+  routes: [
+    { task: "tone_check", provider: "local", model: "llama3.1" },
+    { messageClass: "short", provider: "gateway", model: "anthropic/claude-sonnet-4-20250514" },
+    { provider: "gateway", model: "anthropic/claude-opus-4-20250514" },
+  ],
+  shortMessageThreshold: 20,
+});
+
+describe("routeModel", () => {
+  it("should keep the Sonnet/Opus split by default", () => {
+    expect(routeModel(DEFAULT_ROUTER_CONFIG, "reword", 10)).toEqual({
+      task: "reword",
+      messageClass: "short",
+      provider: "gateway",
+      model: "anthropic/claude-sonnet-4-20250514",
+      fallback: { provider: "gateway", model: "anthropic/claude-opus-4-20250514" },
+    });
+    expect(routeModel(DEFAULT_ROUTER_CONFIG, "reword", 50)).toMatchObject({
+      model: "anthropic/claude-opus-4-20250514",
+      fallback: { model: "anthropic/claude-sonnet-4-20250514" },
+    });
+  });
+
+  it("should use the economy model when asked to", () => {
+    expect(routeModel(DEFAULT_ROUTER_CONFIG, "reword", 500, true)).toEqual({
+      task: "reword",
+      messageClass: "long",
+      provider: "gateway",
+      model: "anthropic/claude-3-5-haiku-20241022",
+    });
+    const withoutEconomy = parseRouterConfig(
+      JSON.stringify({
+        providers: { local: { type: "openai-compatible", baseURL: "http://localhost:11434/v1" } },
+        routes: [{ provider: "local", model: "m" }],
+      })
+    );
+    expect(withoutEconomy.economy).toBeUndefined();
+    expect(routeModel(withoutEconomy, "reword", 500, true).model).toBe("m");
+  });
+
+  it("should default the economy model for configs with a gateway provider", () => {
+    const config = parseRouterConfig(
+      JSON.stringify({ providers: { ai: { type: "gateway" } }, routes: [{ provider: "ai", model: "m" }] })
+    );
+
+    expect(config.economy).toEqual({ provider: "ai", model: "anthropic/claude-3-5-haiku-20241022" });
+    expect(routeModel(config, "reword", 500, true).model).toBe("anthropic/claude-3-5-haiku-20241022");
+  });
+
+  it("should use the first matching rule", () => {
+    const config = parseRouterConfig(CONFIG);
+    expect(routeModel(config, "tone_check", 5).provider).toBe("local");
+    expect(routeModel(config, "refine", 5).model).toBe("anthropic/claude-sonnet-4-20250514");
+    expect(routeModel(config, "refine", 25).model).toBe("anthropic/claude-opus-4-20250514");
+  });
+});
+
+describe("parseRouterConfig", () => {
+  it("should reject invalid JSON", () => {
+    expect(() => parseRouterConfig("{")).toThrow("Invalid model router config");
+  });
+
+  it("should reject routes to unknown providers", () => {
+    const json = JSON.stringify({ routes: [{ provider: "openai", model: "gpt-4o" }] });
+    expect(() => parseRouterConfig(json)).toThrow('unknown provider "openai"');
+  });
+
+  it("should require openai-compatible providers to have a baseURL", () => {
+    const json = JSON.stringify({
+      providers: { local: { type: "openai-compatible" } },
+      routes: [{ provider: "local", model: "llama3.1" }],
+    });
+    expect(() => parseRouterConfig(json)).toThrow("needs a baseURL");
+  });
+
+  it("should reject fallbacks to unknown providers", () => {
+    const json = JSON.stringify({
+      routes: [{ provider: "gateway", model: "m", fallback: { provider: "local", model: "llama3.1" } }],
+    });
+    expect(() => parseRouterConfig(json)).toThrow('falls back to unknown provider "local"');
+  });
+
+  it("should require a catch-all route at the end", () => {
+    const json = JSON.stringify({ routes: [{ task: "reword", provider: "gateway", model: "m" }] });
+    expect(() => parseRouterConfig(json)).toThrow("catch-all");
+  });
+
+  it("should default providers and threshold", () => {
+    const config = parseRouterConfig(JSON.stringify({ routes: [{ provider: "gateway", model: "m" }] }));
+    expect(config.providers).toEqual(DEFAULT_ROUTER_CONFIG.providers);
+    expect(config.shortMessageThreshold).toBe(50);
+  });
+});
+
+describe("routerConfigFromEnv", () => {
+  it("should fall back to the default config", () => {
+    expect(routerConfigFromEnv({})).toBe(DEFAULT_ROUTER_CONFIG);
+  });
+
+  it("should prefer inline JSON over a config file", () => {
+    const file = JSON.stringify({ routes: [{ provider: "gateway", model: "from-file" }] });
+    const inline = JSON.stringify({ routes: [{ provider: "gateway", model: "inline" }] });
+    expect(routerConfigFromEnv({}, file).routes[0].model).toBe("from-file");
+    expect(routerConfigFromEnv({ MODEL_ROUTER_JSON: inline }, file).routes[0].model).toBe("inline");
+  });
+
+  it("should route everything to a local OpenAI-compatible server", () => {
+    const config = routerConfigFromEnv({
+      OPENAI_COMPATIBLE_BASE_URL: "http://localhost:8080/v1",
+      OPENAI_COMPATIBLE_MODEL: "qwen2.5",
+    });
+    const route = routeModel(config, "reword", 500);
+    expect(describeRoute(route)).toBe("local:qwen2.5");
+    expect(config.providers.local).toMatchObject({ type: "openai-compatible", baseURL: "http://localhost:8080/v1" });
+  });
+});
+
+describe("createModelResolver", () => {
+  it("should create models for every provider type", () => {
+    const config = parseRouterConfig(
+      JSON.stringify({
+        providers: {
+          gateway: { type: "gateway" },
+          anthropic: { type: "anthropic" },
+          local: { type: "openai-compatible", baseURL: "http://localhost:11434/v1" },
+        },
+        routes: [
+          { task: "reword", provider: "anthropic", model: "claude-sonnet-4-20250514" },
+          { task: "refine", provider: "local", model: "llama3.1" },
+          { provider: "gateway", model: "anthropic/claude-opus-4-20250514" },
+        ],
+      })
+    );
+    const resolve = createModelResolver(config, { ANTHROPIC_API_KEY: "key" });
+
+    const anthropic = resolve(routeModel(config, "reword", 10));
+    const local = resolve(routeModel(config, "refine", 10));
+    expect(anthropic).toMatchObject({ modelId: "claude-sonnet-4-20250514" });
+    expect(local).toMatchObject({ modelId: "llama3.1", provider: "local.chat" });
+  });
+});
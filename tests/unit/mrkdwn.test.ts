@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { applyMask, hasProse, maskMrkdwn, restoreMrkdwn, segmentMrkdwn } from "../../lib/mrkdwn.js";
+
+const MESSAGE = [
+  "this is broken, run `npm test` first:",
+  "```",
+  "const x = 1",
+  "```",
+  "&gt; it worked yesterday",
+  "&gt; said nobody",
+  "- fix it",
+  "- ship it",
+  "thx",
+].join("\n");
+
+describe("segmentMrkdwn", () => {
+  it("should split prose from code, quotes and lists", () => {
+    const segments = segmentMrkdwn(MESSAGE);
+
+    expect(segments.map((s) => s.kind)).toEqual([
+      "prose",
+      "inline_code",
+      "prose",
+      "code_block",
+      "prose",
+      "quote",
+      "list",
+      "prose",
+    ]);
+    expect(segments[5].text).toBe("&gt; it worked yesterday\n&gt; said nobody\n");
+    expect(segments.map((s) => s.text).join("")).toBe(MESSAGE);
+  });
+
+  it("should keep plain messages as a single prose segment", () => {
+    expect(segmentMrkdwn("need this asap")).toEqual([{ kind: "prose", text: "need this asap" }]);
+  });
+
+  it("should recognize numbered lists and > quotes", () => {
+    const kinds = segmentMrkdwn("steps:\n1. build\n2) deploy\n> quoted").map((s) => s.kind);
+
+    expect(kinds).toEqual(["prose", "list", "quote"]);
+  });
+});
+
+describe("maskMrkdwn / restoreMrkdwn", () => {
+  it("should replace protected segments with placeholders and restore them", () => {
+    const masked = maskMrkdwn(MESSAGE);
+
+    expect(masked.text).toBe("this is broken, run [[P1]] first:\n[[P2]]\n[[P3]]\n[[P4]]\nthx");
+    expect(masked.segments[1]).toBe("```\nconst x = 1\n```");
+
+    const reworded = "Hey, this seems broken - could you run [[P1]] first?\n[[P2]]\n[[P3]]\n[[P4]]\nThanks!";
+    expect(restoreMrkdwn(reworded, masked)).toBe(
+      "Hey, this seems broken - could you run `npm test` first?\n```\nconst x = 1\n```\n" +
+        "&gt; it worked yesterday\n&gt; said nobody\n- fix it\n- ship it\nThanks!"
+    );
+  });
+
+  it("should fill repeated placeholders once and leave unknown ones alone", () => {
+    const masked = maskMrkdwn("run `make` now");
+
+    expect(restoreMrkdwn("Please run [[P1]] ([[P1]]) [[P9]]", masked)).toBe("Please run `make` () [[P9]]");
+  });
+
+  it("should mask a previous rewording with the same placeholders", () => {
+    const masked = maskMrkdwn("run `make` now");
+
+    expect(applyMask("Could you run `make` now?", masked)).toBe("Could you run [[P1]] now?");
+  });
+});
+
+describe("hasProse", () => {
+  it("should be false when there is nothing but protected content", () => {
+    expect(hasProse(maskMrkdwn("```\nrm -rf build\n```"))).toBe(false);
+    expect(hasProse(maskMrkdwn("- one\n- two"))).toBe(false);
+    expect(hasProse(maskMrkdwn("fix `this`"))).toBe(true);
+  });
+});
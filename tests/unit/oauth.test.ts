@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+import {
+  OAuthConfig,
+  createInstallUrl,
+  createOAuthState,
+  exchangeOAuthCode,
+  installationFromOAuth,
+  verifyOAuthState,
+} from "../../lib/oauth.js";
+
+const config: OAuthConfig = {
+  clientId: "123.456",
+  clientSecret: "client-secret",
+  redirectUri: "https://bot.example.com/api/slack/oauth/callback",
+  stateSecret: "state-secret",
+};
+
+describe("createInstallUrl", () => {
+  it("should point at Slack's authorize page with scopes and state", () => {
+    const url = new URL(createInstallUrl(config, "abc"));
+
+    expect(url.origin + url.pathname).toBe("https://slack.com/oauth/v2/authorize");
+    expect(url.searchParams.get("client_id")).toBe("123.456");
+    expect(url.searchParams.get("scope")).toContain("commands");
+    expect(url.searchParams.get("user_scope")).toContain("chat:write");
+    expect(url.searchParams.get("redirect_uri")).toBe(config.redirectUri);
+    expect(url.searchParams.get("state")).toBe("abc");
+  });
+});
+
+describe("OAuth state", () => {
+  it("should verify a freshly issued state", async () => {
+    const state = await createOAuthState("secret");
+
+    expect(await verifyOAuthState("secret", state)).toBe(true);
+  });
+
+  it("should reject states signed with another secret", async () => {
+    const state = await createOAuthState("other-secret");
+
+    expect(await verifyOAuthState("secret", state)).toBe(false);
+  });
+
+  it("should reject expired states", async () => {
+    const issued = Date.now() - 11 * 60 * 1000;
+    const state = await createOAuthState("secret", issued);
+
+    expect(await verifyOAuthState("secret", state)).toBe(false);
+  });
+
+  it("should reject tampered or missing states", async () => {
+    const state = await createOAuthState("secret");
+    const [issuedAt, , signature] = state.split(".");
+
+    expect(await verifyOAuthState("secret", `${issuedAt}.forged-nonce.${signature}`)).toBe(false);
+    expect(await verifyOAuthState("secret", null)).toBe(false);
+    expect(await verifyOAuthState("secret", "garbage")).toBe(false);
+  });
+});
+
+describe("exchangeOAuthCode", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should post the code form-encoded to oauth.v2.access", async () => {
+    mockFetch.mockResolvedValue({ ok: true, status: 200, json: async () => ({ ok: true }) });
+
+    await exchangeOAuthCode(config, "the-code");
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe("https://slack.com/api/oauth.v2.access");
+    const params = new URLSearchParams(init.body);
+    expect(params.get("code")).toBe("the-code");
+    expect(params.get("client_id")).toBe("123.456");
+    expect(params.get("client_secret")).toBe("client-secret");
+    expect(params.get("redirect_uri")).toBe(config.redirectUri);
+  });
+
+  it("should report HTTP failures", async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 500, json: async () => ({}) });
+
+    expect(await exchangeOAuthCode(config, "the-code")).toEqual({ ok: false, error: "http_500" });
+  });
+});
+
+describe("installationFromOAuth", () => {
+  it("should map the bot and user tokens", () => {
+    const installation = installationFromOAuth({
+      ok: true,
+      app_id: "A1",
+      access_token: "xoxb-1",
+      scope: "commands,chat:write",
+      bot_user_id: "UBOT",
+      team: { id: "T1", name: "Acme" },
+      authed_user: { id: "U1", scope: "chat:write", access_token: "xoxp-1" },
+    });
+
+    expect(installation).toMatchObject({
+      teamId: "T1",
+      teamName: "Acme",
+      appId: "A1",
+      botToken: "xoxb-1",
+      botUserId: "UBOT",
+      botScopes: ["commands", "chat:write"],
+      users: { U1: { token: "xoxp-1", scopes: ["chat:write"] } },
+    });
+  });
+
+  it("should skip users without a user token", () => {
+    const installation = installationFromOAuth({
+      ok: true,
+      access_token: "xoxb-1",
+      team: { id: "T1" },
+      authed_user: { id: "U1" },
+    });
+
+    expect(installation.users).toEqual({});
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryStore } from "../../lib/storage.js";
+import {
+  UserPreferences,
+  applySettingsArgs,
+  createPreferencesStore,
+  mergeOptions,
+} from "../../lib/preferences.js";
+
+describe("createPreferencesStore", () => {
+  it("should return empty preferences for unknown users", async () => {
+    const store = createPreferencesStore(createMemoryStore<UserPreferences>());
+
+    expect(await store.get("T1", "U1")).toEqual({});
+  });
+
+  it("should key preferences by team and user", async () => {
+    const store = createPreferencesStore(createMemoryStore<UserPreferences>());
+    await store.set("T1", "U1", { styles: ["formal"] });
+
+    expect(await store.get("T1", "U1")).toEqual({ styles: ["formal"] });
+    expect(await store.get("T2", "U1")).toEqual({});
+    expect(await store.get("T1", "U2")).toEqual({});
+  });
+
+  it("should drop the entry when preferences are reset", async () => {
+    const backing = createMemoryStore<UserPreferences>();
+    const store = createPreferencesStore(backing);
+    await store.set("T1", "U1", { language: "German" });
+    await store.set("T1", "U1", {});
+
+    expect(await backing.get("T1:U1")).toBeUndefined();
+  });
+});
+
+describe("mergeOptions", () => {
+  it("should let command options override preferences", () => {
+    const merged = mergeOptions(
+      { styles: ["formal"], language: "German" },
+      { styles: ["casual"], length: "shorter" }
+    );
+
+    expect(merged).toEqual({ styles: ["casual"], language: "German", length: "shorter" });
+  });
+});
+
+describe("applySettingsArgs", () => {
+  it("should show settings without arguments", () => {
+    expect(applySettingsArgs({}, [])).toEqual({ type: "show" });
+  });
+
+  it("should reset all settings", () => {
+    expect(applySettingsArgs({ language: "German" }, ["reset"])).toEqual({
+      type: "updated",
+      preferences: {},
+    });
+  });
+
+  it("should replace the default styles", () => {
+    const update = applySettingsArgs({ styles: ["casual", "formal"] }, ["style", "concise"]);
+
+    expect(update).toEqual({ type: "updated", preferences: { styles: ["concise"] } });
+  });
+
+  it("should accept multi-word values", () => {
+    const update = applySettingsArgs({}, ["audience", "the", "board"]);
+
+    expect(update).toEqual({ type: "updated", preferences: { audience: "the board" } });
+  });
+
+  it("should clear a single setting", () => {
+    const update = applySettingsArgs({ language: "German", length: "shorter" }, ["language", "default"]);
+
+    expect(update).toEqual({ type: "updated", preferences: { length: "shorter" } });
+  });
+
+  it("should reject unknown settings", () => {
+    const update = applySettingsArgs({}, ["tone", "nice"]);
+
+    expect(update.type).toBe("invalid");
+  });
+
+  it("should reject invalid values", () => {
+    const update = applySettingsArgs({}, ["length", "huge"]);
+
+    expect(update.type).toBe("invalid");
+  });
+});
@@ -1,5 +1,18 @@
 import { describe, it, expect } from "vitest";
-import { REWORD_SYSTEM_PROMPT, createRewordUserPrompt } from "../../lib/prompts.js";
+import {
+  REWORD_SYSTEM_PROMPT,
+  REWORD_FORMAL_PROMPT,
+  createRewordUserPrompt,
+  createStylePrompt,
+  createCombinedStylePrompt,
+  createRefineUserPrompt,
+  createRegenerateUserPrompt,
+  createToneCheckUserPrompt,
+  createEntityRetryNote,
+  createExplainUserPrompt,
+  TONE_CHECK_SYSTEM_PROMPT,
+} from "../../lib/prompts.js";
+import { getStyle } from "../../lib/styles.js";
 
 describe("REWORD_SYSTEM_PROMPT", () => {
   it("should be a non-empty string", () => {
@@ -71,3 +84,172 @@ describe("createRewordUserPrompt", () => {
     expect(prompt.toLowerCase()).toMatch(/friendly|diplomatic/);
   });
 });
+
+describe("createStylePrompt", () => {
+  it("should include the style heading, guidance and examples", () => {
+    const style = getStyle("concise")!;
+    const prompt = createStylePrompt(style);
+
+    expect(prompt).toContain("STYLE - CONCISE:");
+    expect(prompt).toContain(`- ${style.guidance[0]}`);
+    expect(prompt).toContain(`"${style.examples[0].original}" → "${style.examples[0].reworded}"`);
+  });
+
+  it("should share the critical rules across styles", () => {
+    const prompt = createStylePrompt(getStyle("empathetic")!);
+
+    expect(prompt).toContain("CRITICAL RULES:");
+    expect(prompt).toContain("Output ONLY the reworded message.");
+  });
+
+  it("should add option guidance when options are given", () => {
+    const prompt = createStylePrompt(getStyle("casual")!, {
+      language: "German",
+      length: "shorter",
+      audience: "the client",
+    });
+
+    expect(prompt).toContain("ADDITIONAL INSTRUCTIONS:");
+    expect(prompt).toContain("in German");
+    expect(prompt).toContain("shorter");
+    expect(prompt).toContain("the client");
+  });
+
+  it("should keep the detected source language", () => {
+    const prompt = createStylePrompt(getStyle("formal")!, {}, {}, { code: "de", name: "German" });
+
+    expect(prompt).toContain("LANGUAGE:");
+    expect(prompt).toContain("in German, the language of the original - do NOT translate it");
+    expect(prompt).toContain("The examples above are in English; apply the same tone in German");
+    expect(prompt).toContain("Könnten Sie");
+  });
+
+  it("should translate into an explicit target language", () => {
+    const prompt = createStylePrompt(getStyle("casual")!, { language: "fr" }, {}, { code: "de", name: "German" });
+
+    expect(prompt).toContain("in French, translating it if the original is in another language");
+    expect(prompt).toContain("Salut");
+    expect(prompt).not.toContain("Könnten Sie");
+  });
+
+  it("should pass unknown target languages through", () => {
+    const prompt = createStylePrompt(getStyle("casual")!, { language: "Esperanto" });
+
+    expect(prompt).toContain("in Esperanto, translating it");
+  });
+
+  it("should skip the English-examples note for English", () => {
+    const prompt = createStylePrompt(getStyle("casual")!, {}, {}, { code: "en", name: "English" });
+
+    expect(prompt).toContain("in English, the language of the original");
+    expect(prompt).not.toContain("The examples above are in English");
+  });
+
+  it("should omit language guidance without a detected or requested language", () => {
+    expect(createStylePrompt(getStyle("casual")!)).not.toContain("LANGUAGE:");
+  });
+
+  it("should omit option guidance without options", () => {
+    expect(createStylePrompt(getStyle("casual")!)).not.toContain("ADDITIONAL INSTRUCTIONS");
+  });
+
+  it("should append workspace house rules", () => {
+    const prompt = createStylePrompt(getStyle("casual")!, {}, {
+      houseRules: ["Never use exclamation marks", "Always sign off with - Team Acme"],
+    });
+
+    expect(prompt).toContain("HOUSE RULES");
+    expect(prompt).toContain("- Never use exclamation marks");
+    expect(prompt).toContain("- Always sign off with - Team Acme");
+    expect(prompt.indexOf("HOUSE RULES")).toBeGreaterThan(prompt.indexOf("CRITICAL RULES"));
+  });
+
+  it("should use workspace example overrides", () => {
+    const prompt = createStylePrompt(getStyle("formal")!, {}, {
+      examples: { formal: [{ original: "ok", reworded: "Acknowledged." }] },
+    });
+
+    expect(prompt).toContain('"ok" → "Acknowledged."');
+    expect(prompt).not.toContain('"ok" → "Understood."');
+  });
+
+  it("should build the formal prompt from the registry", () => {
+    expect(REWORD_FORMAL_PROMPT).toBe(createStylePrompt(getStyle("formal")!));
+  });
+});
+
+describe("createCombinedStylePrompt", () => {
+  it("should include every style's guidance and the rules once", () => {
+    const prompt = createCombinedStylePrompt([getStyle("casual")!, getStyle("formal")!], { length: "shorter" });
+
+    expect(prompt).toContain('STYLE "casual" - CASUAL');
+    expect(prompt).toContain('STYLE "formal" - FORMAL');
+    expect(prompt.match(/CRITICAL RULES/g)).toHaveLength(1);
+    expect(prompt).toContain("noticeably shorter");
+    expect(prompt).toContain('("casual", "formal")');
+  });
+
+  it("should add language guidance per style", () => {
+    const prompt = createCombinedStylePrompt([getStyle("casual")!, getStyle("formal")!], {}, {}, {
+      code: "de",
+      name: "German",
+    });
+
+    expect(prompt.match(/LANGUAGE:/g)).toHaveLength(2);
+  });
+});
+
+describe("createRefineUserPrompt", () => {
+  it("should include the original, the previous rewording and the instruction", () => {
+    const prompt = createRefineUserPrompt("fix this", "Hey, could you fix this?", "more formal");
+
+    expect(prompt).toContain("fix this");
+    expect(prompt).toContain("Hey, could you fix this?");
+    expect(prompt).toContain("more formal");
+    expect(prompt).toContain("Output ONLY the revised message.");
+  });
+});
+
+describe("createRegenerateUserPrompt", () => {
+  it("should keep the message first and ask for a different version", () => {
+    const prompt = createRegenerateUserPrompt("fix this", "Hey, could you fix this?");
+
+    expect(prompt.startsWith("fix this")).toBe(true);
+    expect(prompt).toContain("Hey, could you fix this?");
+    expect(prompt).toContain("noticeably different");
+  });
+});
+
+describe("TONE_CHECK_SYSTEM_PROMPT", () => {
+  it("should ask for scores without a rewrite", () => {
+    expect(TONE_CHECK_SYSTEM_PROMPT).toContain("harshness");
+    expect(TONE_CHECK_SYSTEM_PROMPT).toContain("clarity");
+    expect(TONE_CHECK_SYSTEM_PROMPT).toContain("urgency");
+    expect(TONE_CHECK_SYSTEM_PROMPT).toContain("NEVER rewrite");
+  });
+
+  it("should include the draft in the user prompt", () => {
+    expect(createToneCheckUserPrompt("fix this")).toContain("fix this");
+  });
+});
+
+describe("createExplainUserPrompt", () => {
+  it("should include both texts and the style", () => {
+    const prompt = createExplainUserPrompt("no excuses", "Let's find a way", "Formal");
+
+    expect(prompt).toContain("Original message:\nno excuses");
+    expect(prompt).toContain("Reworded (formal) version:\nLet's find a way");
+  });
+});
+
+describe("createEntityRetryNote", () => {
+  it("should list the missing entities verbatim", () => {
+    const note = createEntityRetryNote([
+      { kind: "user", raw: "<@U123|jane>", id: "U123", label: "jane" },
+      { kind: "ticket", raw: "PROJ-42", id: "PROJ-42" },
+    ]);
+
+    expect(note).toContain("EXACTLY as written");
+    expect(note).toContain("- <@U123|jane>\n- PROJ-42");
+  });
+});
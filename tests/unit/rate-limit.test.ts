@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createMemoryStore } from "../../lib/storage.js";
+import {
+  DEFAULT_RATE_LIMITS,
+  RateLimits,
+  TokenBucket,
+  createKvRateLimiter,
+  createRateLimiter,
+  describeRateLimit,
+  resolveRateLimits,
+} from "../../lib/rate-limit.js";
+
+const limits: RateLimits = {
+  user: { burst: 2, perMinute: 1 },
+  team: { burst: 3, perMinute: 6 },
+};
+
+function createLimiter() {
+  let now = 0;
+  const limiter = createRateLimiter(createMemoryStore<TokenBucket>(), () => now);
+  return {
+    limiter,
+    advance(ms: number) {
+      now += ms;
+    },
+  };
+}
+
+describe("createRateLimiter", () => {
+  it("should allow a burst and then ask the user to wait", async () => {
+    const { limiter } = createLimiter();
+
+    expect(await limiter.consume("T1", "U1", limits)).toEqual({ allowed: true });
+    expect(await limiter.consume("T1", "U1", limits)).toEqual({ allowed: true });
+    expect(await limiter.consume("T1", "U1", limits)).toEqual({ allowed: false, scope: "user", retryAfterMs: 60_000 });
+  });
+
+  it("should only allow the burst when calls arrive concurrently", async () => {
+    const { limiter } = createLimiter();
+
+    const decisions = await Promise.all(Array.from({ length: 10 }, () => limiter.consume("T1", "U1", limits)));
+
+    expect(decisions.filter((d) => d.allowed)).toHaveLength(limits.user.burst);
+  });
+
+  it("should share the workspace bucket between concurrent users", async () => {
+    const { limiter } = createLimiter();
+
+    const decisions = await Promise.all(
+      Array.from({ length: 6 }, (_, i) => limiter.consume("T1", `U${i}`, limits))
+    );
+
+    expect(decisions.filter((d) => d.allowed)).toHaveLength(limits.team.burst);
+  });
+
+  it("should refill tokens over time", async () => {
+    const { limiter, advance } = createLimiter();
+    await limiter.consume("T1", "U1", limits);
+    await limiter.consume("T1", "U1", limits);
+
+    advance(30_000);
+    expect(await limiter.consume("T1", "U1", limits)).toMatchObject({ allowed: false, retryAfterMs: 30_000 });
+    advance(30_000);
+    expect(await limiter.consume("T1", "U1", limits)).toEqual({ allowed: true });
+  });
+
+  it("should share the team bucket across users", async () => {
+    const { limiter } = createLimiter();
+    await limiter.consume("T1", "U1", limits);
+    await limiter.consume("T1", "U2", limits);
+    await limiter.consume("T1", "U3", limits);
+
+    expect(await limiter.consume("T1", "U4", limits)).toEqual({ allowed: false, scope: "team", retryAfterMs: 10_000 });
+    expect(await limiter.consume("T2", "U4", limits)).toEqual({ allowed: true });
+  });
+
+  it("should not spend team tokens on requests the user limit rejects", async () => {
+    const { limiter } = createLimiter();
+    const strictUser: RateLimits = { ...limits, user: { burst: 1, perMinute: 1 } };
+    await limiter.consume("T1", "U1", strictUser);
+    await limiter.consume("T1", "U1", strictUser);
+    await limiter.consume("T1", "U1", strictUser);
+
+    expect(await limiter.consume("T1", "U2", strictUser)).toEqual({ allowed: true });
+    expect(await limiter.consume("T1", "U3", strictUser)).toEqual({ allowed: true });
+  });
+});
+
+describe("createKvRateLimiter", () => {
+  const config = { url: "https://kv.example.com", token: "kv-token" };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubResult(result: unknown) {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200, json: async () => ({ result }) });
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  }
+
+  it("should spend both buckets in one EVAL", async () => {
+    const fetchMock = stubResult(["ok", ""]);
+    const limiter = createKvRateLimiter(config, "reword:rate-limits:", () => 1000);
+
+    expect(await limiter.consume("T1", "U1", limits)).toEqual({ allowed: true });
+    const [command, script, keyCount, ...args] = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect([command, keyCount]).toEqual(["EVAL", 2]);
+    expect(script).toContain("HSET");
+    expect(args).toEqual(["reword:rate-limits:user:T1:U1", "reword:rate-limits:team:T1", 1000, 2, 1, 3, 6, 3600]);
+  });
+
+  it("should report the empty bucket and when it refills", async () => {
+    stubResult(["team", "0.5"]);
+    const limiter = createKvRateLimiter(config, "reword:rate-limits:");
+
+    expect(await limiter.consume("T1", "U1", limits)).toEqual({ allowed: false, scope: "team", retryAfterMs: 5000 });
+  });
+});
+
+describe("resolveRateLimits", () => {
+  it("should apply workspace overrides field by field", () => {
+    expect(resolveRateLimits()).toEqual(DEFAULT_RATE_LIMITS);
+    expect(resolveRateLimits({ user: { perMinute: 20 } })).toEqual({
+      user: { burst: DEFAULT_RATE_LIMITS.user.burst, perMinute: 20 },
+      team: DEFAULT_RATE_LIMITS.team,
+    });
+  });
+});
+
+describe("describeRateLimit", () => {
+  it("should include the retry-after time", () => {
+    expect(describeRateLimit({ allowed: false, scope: "user", retryAfterMs: 1500 })).toBe(
+      "You're sending requests faster than your limit allows. Please try again in 2 seconds."
+    );
+    expect(describeRateLimit({ allowed: false, scope: "team", retryAfterMs: 90_000 })).toBe(
+      "This workspace has hit its request limit. Please try again in 2 minutes."
+    );
+  });
+
+  it("should point to an admin when the limit never refills", () => {
+    expect(describeRateLimit({ allowed: false, scope: "team", retryAfterMs: Infinity })).toContain("workspace admin");
+  });
+});
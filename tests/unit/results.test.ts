@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryStore } from "../../lib/storage.js";
+import {
+  RewordResult,
+  createResultId,
+  createResultStore,
+  decodeVersionRef,
+  encodeVersionRef,
+} from "../../lib/results.js";
+
+const result: RewordResult = {
+  id: "r1",
+  teamId: "T1",
+  userId: "U1",
+  original: "fix this",
+  versions: { casual: "Hey, could you fix this?" },
+  options: { length: "shorter" },
+  model: "anthropic/claude-sonnet-4.5",
+  promptVersion: "2026-10-1",
+  attempt: 0,
+  createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+describe("createResultStore", () => {
+  it("should save and load results by id", async () => {
+    const store = createResultStore(createMemoryStore<RewordResult>());
+    await store.save(result);
+
+    expect(await store.get("r1")).toEqual(result);
+    expect(await store.get("r2")).toBeUndefined();
+  });
+
+  it("should overwrite a result when it is saved again", async () => {
+    const store = createResultStore(createMemoryStore<RewordResult>());
+    await store.save(result);
+    await store.save({ ...result, versions: { casual: "Hey, mind fixing this?" }, attempt: 1 });
+
+    expect(await store.get("r1")).toMatchObject({ attempt: 1, versions: { casual: "Hey, mind fixing this?" } });
+  });
+});
+
+describe("createResultId", () => {
+  it("should return unique ids", () => {
+    expect(createResultId()).not.toBe(createResultId());
+  });
+});
+
+describe("encodeVersionRef / decodeVersionRef", () => {
+  it("should round-trip the result and style ids", () => {
+    expect(decodeVersionRef(encodeVersionRef("r1", "casual"))).toEqual({ resultId: "r1", styleId: "casual" });
+  });
+
+  it("should treat plain text as no reference", () => {
+    expect(decodeVersionRef("Note: this is just text")).toBeNull();
+    expect(decodeVersionRef("result:r1")).toBeNull();
+  });
+});
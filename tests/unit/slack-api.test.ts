@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+import {
+  callSlackApi,
+  fetchThreadParent,
+  getTokenUserId,
+  openView,
+  postMessage,
+  updateView,
+} from "../../lib/slack-api.js";
+
+function jsonResponse(body: unknown, status = 200) {
+  return { ok: status < 400, status, json: async () => body };
+}
+
+describe("callSlackApi", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should POST JSON with a bearer token", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ ok: true }));
+
+    await callSlackApi("chat.postMessage", "xoxp-token", { channel: "C1", text: "hi" });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      "https://slack.com/api/chat.postMessage",
+      expect.objectContaining({
+        method: "POST",
+        headers: expect.objectContaining({ Authorization: "Bearer xoxp-token" }),
+        body: JSON.stringify({ channel: "C1", text: "hi" }),
+      })
+    );
+  });
+
+  it("should return Slack's error payload", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ ok: false, error: "channel_not_found" }));
+
+    const result = await callSlackApi("chat.postMessage", "xoxp-token");
+
+    expect(result).toEqual({ ok: false, error: "channel_not_found" });
+  });
+
+  it("should turn HTTP failures into an error result", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({}, 503));
+
+    const result = await callSlackApi("auth.test", "xoxp-token");
+
+    expect(result).toEqual({ ok: false, error: "http_503" });
+  });
+});
+
+describe("postMessage", () => {
+  it("should post to the given channel and thread", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ ok: true, ts: "1.2" }));
+
+    const result = await postMessage("xoxp-token", { channel: "C1", text: "hi", thread_ts: "1.1" });
+
+    expect(result.ok).toBe(true);
+    const [, init] = mockFetch.mock.calls.at(-1)!;
+    expect(JSON.parse(init.body)).toEqual({ channel: "C1", text: "hi", thread_ts: "1.1" });
+  });
+});
+
+describe("getTokenUserId", () => {
+  it("should return the token owner", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ ok: true, user_id: "U123" }));
+
+    expect(await getTokenUserId("xoxp-token")).toBe("U123");
+  });
+
+  it("should return undefined for invalid tokens", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ ok: false, error: "invalid_auth" }));
+
+    expect(await getTokenUserId("xoxp-token")).toBeUndefined();
+  });
+});
+
+describe("fetchThreadParent", () => {
+  it("should request the thread's first message form-encoded", async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse({ ok: true, messages: [{ ts: "1.0", text: "fix this now" }, { ts: "1.1" }] })
+    );
+
+    const parent = await fetchThreadParent("xoxb-token", "C1", "1.0");
+
+    expect(parent).toEqual({ ts: "1.0", text: "fix this now" });
+    const [url, init] = mockFetch.mock.calls.at(-1)!;
+    expect(url).toBe("https://slack.com/api/conversations.replies");
+    expect(init.headers["Content-Type"]).toBe("application/x-www-form-urlencoded");
+    const params = new URLSearchParams(init.body);
+    expect(params.get("channel")).toBe("C1");
+    expect(params.get("ts")).toBe("1.0");
+  });
+
+  it("should return undefined when the thread can't be read", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ ok: false, error: "not_in_channel" }));
+
+    expect(await fetchThreadParent("xoxb-token", "C1", "1.0")).toBeUndefined();
+  });
+});
+
+describe("views", () => {
+  it("should open a view with the trigger id", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ ok: true, view: { id: "V1", hash: "h1" } }));
+
+    const result = await openView("xoxb-token", "trigger-1", { type: "modal" });
+
+    expect(result.view).toEqual({ id: "V1", hash: "h1" });
+    const [url, init] = mockFetch.mock.calls.at(-1)!;
+    expect(url).toBe("https://slack.com/api/views.open");
+    expect(JSON.parse(init.body)).toEqual({ trigger_id: "trigger-1", view: { type: "modal" } });
+  });
+
+  it("should pass the hash when updating a view", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ ok: false, error: "hash_conflict" }));
+
+    const result = await updateView("xoxb-token", "V1", { type: "modal" }, "h1");
+
+    expect(result.error).toBe("hash_conflict");
+    const [url, init] = mockFetch.mock.calls.at(-1)!;
+    expect(url).toBe("https://slack.com/api/views.update");
+    expect(JSON.parse(init.body)).toEqual({ view_id: "V1", view: { type: "modal" }, hash: "h1" });
+  });
+
+  it("should update without a hash", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ ok: true }));
+
+    await updateView("xoxb-token", "V1", { type: "modal" });
+
+    const [, init] = mockFetch.mock.calls.at(-1)!;
+    expect(JSON.parse(init.body)).toEqual({ view_id: "V1", view: { type: "modal" } });
+  });
+});
@@ -4,8 +4,23 @@ import {
   parseSlashCommandPayload,
   verifySlackRequest,
   createSlackResponse,
+  createDualVersionResponse,
+  diffWords,
+  formatWordDiff,
+  createHelpResponse,
+  createStylesResponse,
+  createSettingsResponse,
+  createUsageResponse,
   createErrorResponse,
+  createRewordModal,
+  readRewordModalValues,
+  createFeedbackModal,
+  readFeedbackComment,
+  createToneCheckResponse,
+  FEEDBACK_MODAL_CALLBACK_ID,
+  RewordModalState,
 } from "../../lib/slack.js";
+import { listStyles, resolveStyles } from "../../lib/styles.js";
 
 // Helper to generate valid Slack signatures
 function generateSlackSignature(
@@ -201,6 +216,350 @@ describe("createSlackResponse", () => {
   });
 });
 
+describe("createDualVersionResponse", () => {
+  it("should render one section per version followed by the original", () => {
+    const response = createDualVersionResponse("fix this", {
+      casual: "Hey, could you fix this?",
+      formal: "Could you please fix this?",
+    });
+
+    expect(response.response_type).toBe("ephemeral");
+    const sections = (response.blocks as any[]).filter((b) => b.type === "section");
+    expect(sections.map((b) => b.text.text)).toEqual([
+      "*💬 Casual:* Hey, could you fix this?",
+      "*👔 Formal:* Could you please fix this?",
+    ]);
+    const context = (response.blocks as any[]).at(-1);
+    expect(context.type).toBe("context");
+    expect(context.elements[0].text).toContain("fix this");
+  });
+
+  it("should add a send button under each version", () => {
+    const response = createDualVersionResponse("fix this", {
+      casual: "Hey, could you fix this?",
+      formal: "Could you please fix this?",
+    });
+
+    const actions = (response.blocks as any[]).filter((b) => b.type === "actions");
+    expect(actions.map((b) => b.block_id)).toEqual(["casual_actions", "formal_actions"]);
+    expect(actions[0].elements[0]).toMatchObject({
+      action_id: "send_casual",
+      value: "Hey, could you fix this?",
+    });
+  });
+
+  it("should render any number of styles in order", () => {
+    const response = createDualVersionResponse("ok", {
+      concise: "Sounds good.",
+      empathetic: "Sounds good, thank you!",
+      casual: "Sounds good!",
+    });
+
+    const sections = (response.blocks as any[]).filter((b) => b.type === "section");
+    expect(sections.map((b) => b.block_id)).toEqual([
+      "concise_block",
+      "empathetic_block",
+      "casual_block",
+    ]);
+    expect(sections.map((b) => b.accessory.action_id)).toEqual([
+      "copy_concise",
+      "copy_empathetic",
+      "copy_casual",
+    ]);
+  });
+
+  it("should omit send buttons when asked to", () => {
+    const response = createDualVersionResponse("ok", { casual: "Sounds good!" }, { showSend: false });
+
+    expect((response.blocks as any[]).some((b) => b.type === "actions")).toBe(false);
+  });
+
+  it("should add regenerate buttons when the result is stored", () => {
+    const response = createDualVersionResponse(
+      "fix this",
+      { casual: "Hey, could you fix this?", formal: "Could you please fix this?" },
+      { resultId: "r1" }
+    );
+
+    const actions = (response.blocks as any[]).filter((b) => b.type === "actions");
+    expect(actions.map((b) => b.block_id)).toEqual(["casual_actions", "formal_actions", "result_actions"]);
+    expect(actions[0].elements.map((e: any) => [e.action_id, e.value])).toEqual([
+      ["send_casual", "result:r1:casual"],
+      ["regenerate_casual", "r1"],
+      ["changes_casual", "r1"],
+      ["explain_casual", "r1"],
+      ["feedback_up_casual", "r1:casual"],
+      ["feedback_down_casual", "r1:casual"],
+    ]);
+    expect(actions[2].elements[0]).toMatchObject({ action_id: "regenerate_all", value: "r1" });
+  });
+
+  it("should point copy buttons at the stored result instead of carrying the text", () => {
+    const response = createDualVersionResponse("fix this", { casual: "Hey, could you fix this?" }, { resultId: "r1" });
+
+    const section = (response.blocks as any[]).find((b) => b.block_id === "casual_block");
+    expect(section.accessory).toMatchObject({ action_id: "copy_casual", value: "result:r1:casual" });
+  });
+
+  it("should skip regenerate all for a single version", () => {
+    const response = createDualVersionResponse("ok", { casual: "Sounds good!" }, { resultId: "r1" });
+
+    expect((response.blocks as any[]).some((b) => b.block_id === "result_actions")).toBe(false);
+  });
+
+  it("should render unavailable styles with a retry button", () => {
+    const response = createDualVersionResponse(
+      "ok",
+      { casual: "Sounds good!" },
+      { resultId: "r1", unavailable: ["formal"] }
+    );
+    const blocks = response.blocks as any[];
+    const formal = blocks.find((b) => b.block_id === "formal_block");
+
+    expect(formal.text.text).toContain("Unavailable right now");
+    expect(formal.accessory).toMatchObject({ action_id: "regenerate_formal", value: "r1" });
+    expect(blocks.some((b) => b.block_id === "formal_actions")).toBe(false);
+    expect(blocks.some((b) => b.block_id === "result_actions")).toBe(true);
+  });
+
+  it("should skip the retry button without a result id", () => {
+    const response = createDualVersionResponse("ok", { casual: "Sounds good!" }, { unavailable: ["formal"] });
+    const formal = (response.blocks as any[]).find((b) => b.block_id === "formal_block");
+
+    expect(formal.accessory).toBeUndefined();
+  });
+
+  it("should show the detected and target language in the context block", () => {
+    const detected = createDualVersionResponse("ok", { casual: "Passt!" }, { detectedLanguage: "German" });
+    const translated = createDualVersionResponse(
+      "ok",
+      { casual: "D'accord !" },
+      { detectedLanguage: "German", targetLanguage: "French" }
+    );
+    const targetOnly = createDualVersionResponse("ok", { casual: "D'accord !" }, { targetLanguage: "French" });
+
+    const contextTexts = (response: any) => response.blocks.at(-1).elements.map((e: any) => e.text);
+    expect(contextTexts(detected)).toEqual(["_Original: ok_", "🌐 Detected: German"]);
+    expect(contextTexts(translated)).toEqual(["_Original: ok_", "🌐 German → French"]);
+    expect(contextTexts(targetOnly)).toEqual(["_Original: ok_", "🌐 Translated to French"]);
+  });
+
+  it("should render partial versions without buttons while streaming", () => {
+    const response = createDualVersionResponse(
+      "fix this",
+      { casual: "Hey, could you", formal: "" },
+      { streaming: true, resultId: "r1", hint: "Still writing..." }
+    );
+
+    const blocks = response.blocks as any[];
+    expect(blocks.filter((b) => b.type === "actions")).toEqual([]);
+    expect(blocks[0].accessory).toBeUndefined();
+    expect(blocks[0].text.text).toBe("*💬 Casual:* Hey, could you ▍");
+    expect(blocks[1].text.text).toBe("*👔 Formal:* _…_");
+    expect(blocks.at(-1).elements.map((e: any) => e.text)).toEqual(["_Original: fix this_", "Still writing..."]);
+  });
+
+  it("should add the hint to the context block", () => {
+    const response = createDualVersionResponse("ok", { casual: "Sounds good!" }, { hint: "Reply to refine" });
+
+    const context = (response.blocks as any[]).at(-1);
+    expect(context.elements.map((e: any) => e.text)).toEqual(["_Original: ok_", "Reply to refine"]);
+  });
+
+  it("should toggle a version between its text and a diff", () => {
+    const plain = createDualVersionResponse("send it asap", { casual: "Send it soon!" }, { resultId: "r1" });
+    const diffed = createDualVersionResponse(
+      "send it asap",
+      { casual: "Send it soon!" },
+      { resultId: "r1", showChanges: ["casual"] }
+    );
+
+    const button = (response: any) =>
+      response.blocks.find((b: any) => b.block_id === "casual_actions").elements.find(
+        (e: any) => e.action_id === "changes_casual"
+      );
+    expect(plain.blocks![0]).toMatchObject({ text: { text: "*💬 Casual:* Send it soon!" } });
+    expect(button(plain)).toMatchObject({ text: { text: "🔍 Show changes" }, value: "r1" });
+    expect(diffed.blocks![0]).toMatchObject({ text: { text: "*💬 Casual:* ~send~ *Send* it ~asap~ *soon!*" } });
+    expect(diffed.blocks![0]).toMatchObject({ accessory: { value: "result:r1:casual" } });
+    expect(button(diffed).text.text).toBe("🙈 Hide changes");
+  });
+
+  it("should show expanded explanations under the version", () => {
+    const response = createDualVersionResponse(
+      "no excuses",
+      { casual: "Let's find a way!", formal: "Please find a way." },
+      {
+        resultId: "r1",
+        explanations: {
+          casual: [
+            { original: "no excuses", revised: "Let's find a way", reason: "Reads as accusatory" },
+            { original: "", revised: "!", reason: "Sounds upbeat" },
+          ],
+        },
+      }
+    );
+
+    const blocks = response.blocks as any[];
+    expect(blocks.map((b) => b.block_id)).toEqual([
+      "casual_block",
+      "casual_why",
+      "casual_actions",
+      "formal_block",
+      "formal_actions",
+      "result_actions",
+      undefined,
+    ]);
+    expect(blocks[1].elements[0].text).toBe(
+      '*💡 Why these changes?*\n• "no excuses" → "Let\'s find a way": Reads as accusatory\n• Added "!": Sounds upbeat'
+    );
+    const explainButton = (block: any) => block.elements.find((e: any) => e.action_id.startsWith("explain_"));
+    expect(explainButton(blocks[2]).text.text).toBe("💡 Hide reasons");
+    expect(explainButton(blocks[4]).text.text).toBe("💡 Why these changes?");
+  });
+
+  it("should say so when there is nothing to explain", () => {
+    const response = createDualVersionResponse("ok", { casual: "OK!" }, { resultId: "r1", explanations: { casual: [] } });
+
+    const why = (response.blocks as any[]).find((b) => b.block_id === "casual_why");
+    expect(why.elements[0].text).toContain("mostly keeps your wording");
+  });
+
+  it("should not offer a diff for translations", () => {
+    const response = createDualVersionResponse(
+      "Passt schon",
+      { casual: "Fine by me" },
+      { resultId: "r1", detectedLanguage: "German", targetLanguage: "English", showChanges: ["casual"] }
+    );
+
+    const blocks = response.blocks as any[];
+    expect(blocks[0].text.text).toBe("*💬 Casual:* Fine by me");
+    expect(blocks[1].elements.some((e: any) => e.action_id === "changes_casual")).toBe(false);
+  });
+
+  it("should fall back to the style id for unregistered styles", () => {
+    const response = createDualVersionResponse("ok", { custom: "Fine." });
+
+    const [section] = response.blocks as any[];
+    expect(section.text.text).toBe("*custom:* Fine.");
+    expect(section.accessory.action_id).toBe("copy_custom");
+  });
+});
+
+describe("diffWords", () => {
+  it("should group changed words and keep the rest", () => {
+    expect(diffWords("Can you send it asap", "Could you send it when you get a chance?")).toEqual([
+      { type: "removed", text: "Can" },
+      { type: "added", text: "Could" },
+      { type: "same", text: " you send it " },
+      { type: "removed", text: "asap" },
+      { type: "added", text: "when you get a chance?" },
+    ]);
+  });
+
+  it("should fold whitespace between changes into one change", () => {
+    expect(diffWords("a b c", "a x y c")).toEqual([
+      { type: "same", text: "a " },
+      { type: "removed", text: "b" },
+      { type: "added", text: "x y" },
+      { type: "same", text: " c" },
+    ]);
+  });
+
+  it("should return the text unchanged when nothing differs", () => {
+    expect(diffWords("same text", "same text")).toEqual([{ type: "same", text: "same text" }]);
+  });
+});
+
+describe("formatWordDiff", () => {
+  it("should strike removed phrases and bold added ones", () => {
+    expect(formatWordDiff("Can you send it asap", "Could you send it when you get a chance?")).toBe(
+      "~Can~ *Could* you send it ~asap~ *when you get a chance?*"
+    );
+  });
+
+  it("should keep markers off surrounding whitespace", () => {
+    expect(formatWordDiff("fix the bug now", "fix the bug")).toBe("fix the bug ~now~");
+    expect(formatWordDiff("hi  there", "hello there")).toBe("~hi~ *hello* there");
+  });
+});
+
+describe("createHelpResponse", () => {
+  it("should list subcommands and options using the invoked command", () => {
+    const response = createHelpResponse("/polish");
+
+    expect(response.response_type).toBe("ephemeral");
+    const usage = (response.blocks as any[]).find((b) => b.type === "section");
+    expect(usage.text.text).toContain("`/polish help`");
+    expect(usage.text.text).toContain("--style");
+    expect(usage.text.text).toContain("--language");
+    expect(usage.text.text).toContain("--length");
+    expect(usage.text.text).toContain("--audience");
+  });
+
+  it("should lead with the intro when given", () => {
+    const response = createHelpResponse("/reword", "Please provide a message to reword.");
+
+    expect(response.text).toContain("Please provide a message");
+    expect((response.blocks as any[])[0].text.text).toContain("Please provide a message");
+  });
+});
+
+describe("createStylesResponse", () => {
+  it("should list every style and mark defaults", () => {
+    const response = createStylesResponse(listStyles(), ["casual"]);
+
+    const section = (response.blocks as any[]).find((b) => b.type === "section");
+    for (const style of listStyles()) {
+      expect(section.text.text).toContain(`\`${style.id}\``);
+    }
+    expect(section.text.text).toContain("`casual` _(default)_");
+    expect(section.text.text).not.toContain("`formal` _(default)_");
+  });
+});
+
+describe("createUsageResponse", () => {
+  const user = { inputTokens: 1200, outputTokens: 300, calls: 3, costUsd: 0.0081 };
+  const team = { inputTokens: 120000, outputTokens: 30000, calls: 250, costUsd: 4.2 };
+
+  it("should show the user's and the workspace's usage", () => {
+    const response = createUsageResponse("2026-10", user, team);
+    const section = (response.blocks as any[]).find((b) => b.type === "section");
+
+    expect(section.text.text).toContain("*You:* 3 calls · 1,500 tokens (1,200 in / 300 out) · ~$0.01");
+    expect(section.text.text).toContain("*Workspace:* 250 calls · 150,000 tokens");
+    expect(section.text.text).not.toContain("Quota");
+  });
+
+  it("should show the workspace quota when set", () => {
+    const response = createUsageResponse("2026-10", user, team, { monthlyCostUsd: 10, onExceeded: "refuse" });
+    const section = (response.blocks as any[]).find((b) => b.type === "section");
+
+    expect(section.text.text).toContain("*Quota:* $4.20 / $10.00 _(once exceeded, requests are refused)_");
+  });
+});
+
+describe("createSettingsResponse", () => {
+  it("should show the effective settings", () => {
+    const response = createSettingsResponse(resolveStyles(["formal"]), {
+      styles: ["formal"],
+      language: "German",
+    });
+
+    const section = (response.blocks as any[]).find((b) => b.type === "section");
+    expect(section.text.text).toContain("👔 Formal");
+    expect(section.text.text).toContain("*Language:* German");
+    expect(section.text.text).toContain("*Audience:* _not set_");
+  });
+
+  it("should lead with the notice when given", () => {
+    const response = createSettingsResponse(resolveStyles(["casual"]), {}, "Settings saved.");
+
+    expect(response.text).toBe("Settings saved.");
+    expect((response.blocks as any[])[0].text.text).toBe("Settings saved.");
+  });
+});
+
 describe("createErrorResponse", () => {
   it("should create an ephemeral error response", () => {
     const response = createErrorResponse("Something went wrong");
@@ -222,3 +581,127 @@ describe("createErrorResponse", () => {
     expect(response.text).toBeDefined();
   });
 });
+
+describe("createToneCheckResponse", () => {
+  it("should render the verdict, scores, phrases and draft", () => {
+    const response = createToneCheckResponse("I need this by EOD, no excuses", {
+      harshness: 8,
+      clarity: 9,
+      urgency: 9,
+      bluntPhrases: [{ phrase: "no excuses", reason: "Sounds like an ultimatum" }],
+      explanation: "Clear, but reads as a demand.",
+    });
+
+    const blocks = response.blocks as any[];
+    expect(response.response_type).toBe("ephemeral");
+    expect(blocks[0].text.text).toContain("harsh");
+    expect(blocks[1].fields[0].text).toBe("*Harshness*\n▰▰▰▰▰▰▰▰▱▱ 8/10");
+    expect(blocks[2].text.text).toContain('• "no excuses" - Sounds like an ultimatum');
+    expect(blocks[3].text.text).toBe("Clear, but reads as a demand.");
+    expect(blocks.at(-1).elements[0].text).toBe("_Draft: I need this by EOD, no excuses_");
+  });
+
+  it("should say when nothing reads as blunt", () => {
+    const response = createToneCheckResponse("thanks!", {
+      harshness: 1,
+      clarity: 10,
+      urgency: 1,
+      bluntPhrases: [],
+      explanation: "",
+    });
+
+    const blocks = response.blocks as any[];
+    expect(blocks[0].text.text).toContain("Looks good to send");
+    expect(blocks[2].text.text).toContain("Nothing stands out as blunt");
+    expect(blocks).toHaveLength(4);
+  });
+});
+
+describe("createRewordModal", () => {
+  const state: RewordModalState = {
+    original: "fix this now",
+    styleId: "formal",
+    styles: resolveStyles(["casual", "formal"]),
+    metadata: { teamId: "T1", channel: "C1", threadTs: "1.0", revision: 2 },
+  };
+
+  it("should prefill the original and selected style and carry metadata", () => {
+    const view = createRewordModal(state) as any;
+
+    expect(view.type).toBe("modal");
+    expect(JSON.parse(view.private_metadata)).toEqual(state.metadata);
+    const original = view.blocks.find((b: any) => b.block_id === "original");
+    expect(original.element.initial_value).toBe("fix this now");
+    const style = view.blocks.find((b: any) => b.block_id === "style");
+    expect(style.dispatch_action).toBe(true);
+    expect(style.element.initial_option.value).toBe("formal");
+    expect(style.element.options.map((o: any) => o.value)).toEqual(["casual", "formal"]);
+  });
+
+  it("should show a progress message and no submit button while generating", () => {
+    const view = createRewordModal(state) as any;
+
+    expect(view.submit).toBeUndefined();
+    expect(JSON.stringify(view.blocks)).toContain("Rewording your message");
+    expect(view.blocks.some((b: any) => b.block_id?.startsWith("preview_"))).toBe(false);
+  });
+
+  it("should show an editable preview keyed by revision once generated", () => {
+    const view = createRewordModal({ ...state, preview: "Could you please fix this?" }) as any;
+
+    expect(view.submit.text).toBe("Send");
+    const preview = view.blocks.find((b: any) => b.block_id === "preview_2");
+    expect(preview.element.initial_value).toBe("Could you please fix this?");
+    expect(JSON.stringify(view.blocks)).toContain("modal_regenerate");
+  });
+
+  it("should show errors without a submit button", () => {
+    const view = createRewordModal({ ...state, error: "Something broke" }) as any;
+
+    expect(view.submit).toBeUndefined();
+    expect(JSON.stringify(view.blocks)).toContain("Something broke");
+  });
+});
+
+describe("createFeedbackModal", () => {
+  it("should carry the metadata and an optional comment input", () => {
+    const view = createFeedbackModal('{"resultId":"r1","styleId":"casual"}') as any;
+
+    expect(view.callback_id).toBe(FEEDBACK_MODAL_CALLBACK_ID);
+    expect(view.private_metadata).toBe('{"resultId":"r1","styleId":"casual"}');
+    expect(view.blocks[0]).toMatchObject({ block_id: "comment", optional: true });
+  });
+});
+
+describe("readFeedbackComment", () => {
+  it("should read and trim the comment", () => {
+    const view = { state: { values: { comment: { comment_input: { value: "  too stiff \n" } } } } };
+
+    expect(readFeedbackComment(view)).toBe("too stiff");
+    expect(readFeedbackComment({})).toBe("");
+  });
+});
+
+describe("readRewordModalValues", () => {
+  it("should read the inputs from view state", () => {
+    const values = readRewordModalValues({
+      state: {
+        values: {
+          original: { original_input: { value: "fix this now" } },
+          style: { style_select: { selected_option: { value: "casual" } } },
+          preview_3: { preview_input: { value: "Hey, could you fix this?" } },
+        },
+      },
+    });
+
+    expect(values).toEqual({
+      original: "fix this now",
+      styleId: "casual",
+      preview: "Hey, could you fix this?",
+    });
+  });
+
+  it("should default missing inputs", () => {
+    expect(readRewordModalValues({})).toEqual({ original: "", styleId: "", preview: "" });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createMemoryStore } from "../../lib/storage.js";
+import { createFileStore } from "../../lib/file-store.js";
+
+describe("createMemoryStore", () => {
+  it("should get, set and delete values", async () => {
+    const store = createMemoryStore<{ n: number }>();
+
+    expect(await store.get("a")).toBeUndefined();
+    await store.set("a", { n: 1 });
+    expect(await store.get("a")).toEqual({ n: 1 });
+    await store.delete("a");
+    expect(await store.get("a")).toBeUndefined();
+  });
+
+  it("should list values", async () => {
+    const store = createMemoryStore<number>();
+    await store.set("a", 1);
+    await store.set("b", 2);
+
+    expect(await store.values()).toEqual([1, 2]);
+  });
+
+  it("should list only the values under a key prefix", async () => {
+    const store = createMemoryStore<number>();
+    await store.set("2026-10:T1:U1", 1);
+    await store.set("2026-10:T2:U1", 2);
+    await store.set("2026-10:T1:U2", 3);
+
+    expect(await store.values("2026-10:T1:")).toEqual([1, 3]);
+  });
+
+  it("should evict the least recently written entries beyond maxEntries", async () => {
+    const store = createMemoryStore<number>({ maxEntries: 2 });
+    await store.set("a", 1);
+    await store.set("b", 2);
+    await store.set("a", 3);
+    await store.set("c", 4);
+
+    expect(await store.get("a")).toBe(3);
+    expect(await store.get("b")).toBeUndefined();
+    expect(await store.get("c")).toBe(4);
+  });
+
+  it("should evict the least recently read entries when lru is set", async () => {
+    const store = createMemoryStore<number>({ maxEntries: 2, lru: true });
+    await store.set("a", 1);
+    await store.set("b", 2);
+    await store.get("a");
+    await store.set("c", 3);
+
+    expect(await store.get("a")).toBe(1);
+    expect(await store.get("b")).toBeUndefined();
+  });
+});
+
+describe("createFileStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "slackbot-store-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should return undefined when the file does not exist yet", async () => {
+    const store = createFileStore<string>(join(dir, "missing.json"));
+
+    expect(await store.get("a")).toBeUndefined();
+  });
+
+  it("should persist values across store instances", async () => {
+    const path = join(dir, "nested", "store.json");
+    const store = createFileStore<{ styles: string[] }>(path);
+    await store.set("T1:U1", { styles: ["formal"] });
+
+    const reopened = createFileStore<{ styles: string[] }>(path);
+    expect(await reopened.get("T1:U1")).toEqual({ styles: ["formal"] });
+    expect(JSON.parse(await readFile(path, "utf8"))).toEqual({ "T1:U1": { styles: ["formal"] } });
+  });
+
+  it("should persist deletes", async () => {
+    const path = join(dir, "store.json");
+    const store = createFileStore<number>(path);
+    await store.set("a", 1);
+    await store.set("b", 2);
+    await store.delete("a");
+
+    const reopened = createFileStore<number>(path);
+    expect(await reopened.get("a")).toBeUndefined();
+    expect(await reopened.get("b")).toBe(2);
+  });
+
+  it("should list persisted values", async () => {
+    const path = join(dir, "store.json");
+    await createFileStore<number>(path).set("a", 1);
+
+    expect(await createFileStore<number>(path).values()).toEqual([1]);
+  });
+
+  it("should keep all concurrent writes", async () => {
+    const path = join(dir, "store.json");
+    const store = createFileStore<number>(path);
+    await Promise.all([store.set("a", 1), store.set("b", 2), store.set("c", 3)]);
+
+    const reopened = createFileStore<number>(path);
+    expect([await reopened.get("a"), await reopened.get("b"), await reopened.get("c")]).toEqual([1, 2, 3]);
+  });
+
+  it("should serve the first read until the process restarts by default", async () => {
+    const path = join(dir, "store.json");
+    await writeFile(path, JSON.stringify({ a: 1 }));
+    const store = createFileStore<number>(path);
+    expect(await store.get("a")).toBe(1);
+
+    await writeFile(path, JSON.stringify({ a: 22 }));
+    expect(await store.get("a")).toBe(1);
+  });
+
+  it("should pick up edits to the file with reloadOnChange", async () => {
+    const path = join(dir, "store.json");
+    await writeFile(path, JSON.stringify({ a: 1 }));
+    const store = createFileStore<number>(path, { reloadOnChange: true });
+    expect(await store.get("a")).toBe(1);
+
+    await writeFile(path, JSON.stringify({ a: 22, b: 3 }));
+    expect(await store.get("a")).toBe(22);
+    await store.set("c", 4);
+    expect(await store.values()).toEqual([22, 3, 4]);
+  });
+
+  it("should evict the oldest entries beyond maxEntries", async () => {
+    const path = join(dir, "store.json");
+    const store = createFileStore<number>(path, { maxEntries: 2 });
+    await store.set("a", 1);
+    await store.set("b", 2);
+    await store.set("c", 3);
+
+    expect(await createFileStore<number>(path).values()).toEqual([2, 3]);
+  });
+});
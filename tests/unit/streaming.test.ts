@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createThrottledUpdater } from "../../lib/streaming.js";
+
+describe("createThrottledUpdater", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should send only the latest value once per interval", async () => {
+    const sent: string[] = [];
+    const updater = createThrottledUpdater<string>(async (value) => {
+      sent.push(value);
+    }, { intervalMs: 1000, maxUpdates: 5 });
+
+    updater.update("a");
+    updater.update("ab");
+    expect(sent).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sent).toEqual(["ab"]);
+
+    updater.update("abc");
+    await vi.advanceTimersByTimeAsync(500);
+    expect(sent).toEqual(["ab"]);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(sent).toEqual(["ab", "abc"]);
+  });
+
+  it("should stop after maxUpdates", async () => {
+    const send = vi.fn(async () => {});
+    const updater = createThrottledUpdater<number>(send, { intervalMs: 100, maxUpdates: 2 });
+
+    for (let i = 0; i < 10; i++) {
+      updater.update(i);
+      await vi.advanceTimersByTimeAsync(100);
+    }
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(updater.sent()).toBe(2);
+  });
+
+  it("should drop queued values on stop and wait for the in-flight send", async () => {
+    let finishSend: () => void = () => {};
+    const sent: string[] = [];
+    const updater = createThrottledUpdater<string>(
+      (value) =>
+        new Promise<void>((resolve) => {
+          finishSend = () => {
+            sent.push(value);
+            resolve();
+          };
+        }),
+      { intervalMs: 100, maxUpdates: 5 }
+    );
+
+    updater.update("first");
+    await vi.advanceTimersByTimeAsync(100);
+    updater.update("queued");
+
+    let stopped = false;
+    const stopping = updater.stop().then(() => {
+      stopped = true;
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stopped).toBe(false);
+
+    finishSend();
+    await stopping;
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sent).toEqual(["first"]);
+  });
+
+  it("should keep going after a failed send", async () => {
+    const send = vi.fn().mockRejectedValueOnce(new Error("boom")).mockResolvedValue(undefined);
+    const updater = createThrottledUpdater<string>(send, { intervalMs: 100, maxUpdates: 5 });
+
+    updater.update("a");
+    await vi.advanceTimersByTimeAsync(100);
+    updater.update("b");
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(send.mock.calls.map(([value]) => value)).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_STYLE_IDS,
+  getStyle,
+  listStyles,
+  registerStyle,
+  resolveStyles,
+} from "../../lib/styles.js";
+
+describe("style registry", () => {
+  it("should include casual and formal as defaults", () => {
+    expect(DEFAULT_STYLE_IDS).toEqual(["casual", "formal"]);
+    expect(getStyle("casual")?.label).toBe("Casual");
+    expect(getStyle("formal")?.label).toBe("Formal");
+  });
+
+  it("should give every built-in style a label, emoji and examples", () => {
+    for (const style of listStyles()) {
+      expect(style.label.length).toBeGreaterThan(0);
+      expect(style.emoji.length).toBeGreaterThan(0);
+      expect(style.guidance.length).toBeGreaterThan(0);
+      expect(style.examples.length).toBeGreaterThan(0);
+    }
+  });
+
+  it("should return undefined for unknown styles", () => {
+    expect(getStyle("pirate")).toBeUndefined();
+  });
+
+  it("should allow registering additional styles", () => {
+    registerStyle({
+      id: "test_style",
+      label: "Test",
+      emoji: "🧪",
+      description: "For tests",
+      role: "You are a test.",
+      guidance: ["Be testy"],
+      examples: [{ original: "a", reworded: "b" }],
+    });
+
+    expect(getStyle("test_style")?.label).toBe("Test");
+    expect(listStyles().map((s) => s.id)).toContain("test_style");
+  });
+});
+
+describe("resolveStyles", () => {
+  it("should resolve ids in the given order", () => {
+    const styles = resolveStyles(["formal", "concise", "casual"]);
+
+    expect(styles.map((s) => s.id)).toEqual(["formal", "concise", "casual"]);
+  });
+
+  it("should drop unknown ids and duplicates", () => {
+    const styles = resolveStyles(["casual", "pirate", "casual"]);
+
+    expect(styles.map((s) => s.id)).toEqual(["casual"]);
+  });
+
+  it("should normalize case and whitespace", () => {
+    const styles = resolveStyles([" Formal ", "EMPATHETIC"]);
+
+    expect(styles.map((s) => s.id)).toEqual(["formal", "empathetic"]);
+  });
+});
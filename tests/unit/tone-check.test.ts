@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { ToneCheckResult, normalizeToneCheck, toneVerdict } from "../../lib/tone-check.js";
+
+const result: ToneCheckResult = {
+  harshness: 2,
+  clarity: 8,
+  urgency: 3,
+  bluntPhrases: [],
+  explanation: "Reads as friendly.",
+};
+
+describe("normalizeToneCheck", () => {
+  it("should clamp and round scores into 1-10", () => {
+    const normalized = normalizeToneCheck({ harshness: 12, clarity: 0, urgency: 4.6 }, "fix this");
+
+    expect([normalized.harshness, normalized.clarity, normalized.urgency]).toEqual([10, 1, 5]);
+  });
+
+  it("should keep only phrases quoted from the message", () => {
+    const normalized = normalizeToneCheck(
+      {
+        ...result,
+        bluntPhrases: [
+          { phrase: " No excuses ", reason: "Sounds like an ultimatum" },
+          { phrase: "you idiot", reason: "Not in the message" },
+          { phrase: "", reason: "Empty" },
+        ],
+      },
+      "I need this by EOD, no excuses"
+    );
+
+    expect(normalized.bluntPhrases).toEqual([{ phrase: "No excuses", reason: "Sounds like an ultimatum" }]);
+  });
+
+  it("should default missing fields", () => {
+    expect(normalizeToneCheck({}, "ok")).toEqual({
+      harshness: 1,
+      clarity: 1,
+      urgency: 1,
+      bluntPhrases: [],
+      explanation: "",
+    });
+  });
+});
+
+describe("toneVerdict", () => {
+  it("should grade by harshness and blunt phrases", () => {
+    expect(toneVerdict(result)).toBe("ok");
+    expect(toneVerdict({ ...result, bluntPhrases: [{ phrase: "now", reason: "curt" }] })).toBe("soften");
+    expect(toneVerdict({ ...result, harshness: 5 })).toBe("soften");
+    expect(toneVerdict({ ...result, harshness: 8 })).toBe("harsh");
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryStore } from "../../lib/storage.js";
+import {
+  UsageRecord,
+  UsageSummary,
+  createUsageMeter,
+  createUsageStore,
+  estimateCost,
+  evaluateQuota,
+  summarizeUsage,
+  usageMonth,
+} from "../../lib/usage.js";
+
+const OPUS = "gateway:anthropic/claude-opus-4-20250514";
+const SONNET = "anthropic:claude-sonnet-4-20250514";
+
+describe("estimateCost", () => {
+  it("should price models by their id", () => {
+    expect(estimateCost(OPUS, { inputTokens: 1_000_000, outputTokens: 0 })).toBe(15);
+    expect(estimateCost(SONNET, { inputTokens: 1000, outputTokens: 1000 })).toBeCloseTo(0.018);
+  });
+
+  it("should treat unknown models as free", () => {
+    expect(estimateCost("local:llama3.1", { inputTokens: 1000, outputTokens: 1000 })).toBe(0);
+  });
+});
+
+describe("usageMonth", () => {
+  it("should return the UTC month", () => {
+    expect(usageMonth(new Date("2026-10-31T23:30:00Z"))).toBe("2026-10");
+  });
+});
+
+describe("createUsageStore", () => {
+  it("should add up usage per user and model", async () => {
+    const store = createUsageStore(createMemoryStore<UsageRecord>(), createMemoryStore<UsageSummary>());
+    await Promise.all([
+      store.record("2026-10", "T1", "U1", SONNET, { inputTokens: 100, outputTokens: 50 }),
+      store.record("2026-10", "T1", "U1", SONNET, { inputTokens: 200, outputTokens: 100 }, 2),
+      store.record("2026-10", "T1", "U2", OPUS, { inputTokens: 10, outputTokens: 10 }),
+      store.record("2026-10", "T2", "U3", OPUS, { inputTokens: 10, outputTokens: 10 }),
+      store.record("2026-09", "T1", "U1", OPUS, { inputTokens: 10, outputTokens: 10 }),
+    ]);
+
+    const records = await store.list("2026-10", "T1");
+    expect(records).toHaveLength(2);
+    expect(records.find((r) => r.userId === "U1")).toMatchObject({
+      model: SONNET,
+      inputTokens: 300,
+      outputTokens: 150,
+      calls: 3,
+    });
+  });
+
+  it("should summarize records", async () => {
+    const store = createUsageStore(createMemoryStore<UsageRecord>(), createMemoryStore<UsageSummary>());
+    await store.record("2026-10", "T1", "U1", SONNET, { inputTokens: 1000, outputTokens: 1000 });
+    await store.record("2026-10", "T1", "U2", OPUS, { inputTokens: 1000, outputTokens: 0 });
+
+    const summary = summarizeUsage(await store.list("2026-10", "T1"));
+    expect(summary).toMatchObject({ inputTokens: 2000, outputTokens: 1000, calls: 2 });
+    expect(summary.costUsd).toBeCloseTo(0.033);
+  });
+
+  it("should keep a running monthly total per workspace", async () => {
+    const store = createUsageStore(createMemoryStore<UsageRecord>(), createMemoryStore<UsageSummary>());
+    await Promise.all([
+      store.record("2026-10", "T1", "U1", SONNET, { inputTokens: 1000, outputTokens: 1000 }),
+      store.record("2026-10", "T1", "U2", OPUS, { inputTokens: 1000, outputTokens: 0 }, 2),
+      store.record("2026-10", "T2", "U3", OPUS, { inputTokens: 10, outputTokens: 10 }),
+      store.record("2026-09", "T1", "U1", OPUS, { inputTokens: 10, outputTokens: 10 }),
+    ]);
+
+    const total = await store.teamTotal("2026-10", "T1");
+    expect(total).toMatchObject({ inputTokens: 2000, outputTokens: 1000, calls: 3 });
+    expect(total.costUsd).toBeCloseTo(summarizeUsage(await store.list("2026-10", "T1")).costUsd);
+    expect(await store.teamTotal("2026-11", "T1")).toEqual({ inputTokens: 0, outputTokens: 0, calls: 0, costUsd: 0 });
+  });
+});
+
+describe("evaluateQuota", () => {
+  const summary = { inputTokens: 800, outputTokens: 200, calls: 4, costUsd: 2.5 };
+
+  it("should be ok without a quota or below it", () => {
+    expect(evaluateQuota(summary, undefined)).toBe("ok");
+    expect(evaluateQuota(summary, { monthlyTokens: 2000, monthlyCostUsd: 5 })).toBe("ok");
+  });
+
+  it("should degrade by default once a limit is reached", () => {
+    expect(evaluateQuota(summary, { monthlyTokens: 1000 })).toBe("degrade");
+    expect(evaluateQuota(summary, { monthlyCostUsd: 2 })).toBe("degrade");
+  });
+
+  it("should refuse when configured to", () => {
+    expect(evaluateQuota(summary, { monthlyCostUsd: 2, onExceeded: "refuse" })).toBe("refuse");
+  });
+});
+
+describe("createUsageMeter", () => {
+  it("should total usage per model", () => {
+    const meter = createUsageMeter();
+    meter.add(SONNET, { inputTokens: 10, outputTokens: 5 });
+    meter.add(SONNET, { inputTokens: 20, outputTokens: undefined });
+    meter.add(OPUS, undefined);
+
+    expect(meter.totals()).toEqual([
+      { model: SONNET, usage: { inputTokens: 30, outputTokens: 5 }, calls: 2 },
+      { model: OPUS, usage: { inputTokens: 0, outputTokens: 0 }, calls: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryStore } from "../../lib/storage.js";
+import { getStyle, listStyles } from "../../lib/styles.js";
+import {
+  WorkspaceConfig,
+  applyWorkspaceExamples,
+  createWorkspaceConfigStore,
+  filterEnabledStyles,
+  isStyleEnabled,
+} from "../../lib/workspace.js";
+
+describe("createWorkspaceConfigStore", () => {
+  it("should return an empty config for unknown workspaces", async () => {
+    const store = createWorkspaceConfigStore(createMemoryStore<WorkspaceConfig>());
+
+    expect(await store.get("T1")).toEqual({});
+  });
+
+  it("should key configs by team id", async () => {
+    const store = createWorkspaceConfigStore(createMemoryStore<WorkspaceConfig>());
+    await store.set("T1", { houseRules: ["Never use exclamation marks"] });
+
+    expect(await store.get("T1")).toEqual({ houseRules: ["Never use exclamation marks"] });
+    expect(await store.get("T2")).toEqual({});
+  });
+});
+
+describe("disabled styles", () => {
+  const config: WorkspaceConfig = { disabledStyles: ["casual", "assertive"] };
+
+  it("should report whether a style is enabled", () => {
+    expect(isStyleEnabled(config, "casual")).toBe(false);
+    expect(isStyleEnabled(config, "formal")).toBe(true);
+    expect(isStyleEnabled({}, "casual")).toBe(true);
+  });
+
+  it("should filter disabled styles out", () => {
+    const ids = filterEnabledStyles(config, listStyles()).map((s) => s.id);
+
+    expect(ids).toContain("formal");
+    expect(ids).not.toContain("casual");
+    expect(ids).not.toContain("assertive");
+  });
+});
+
+describe("applyWorkspaceExamples", () => {
+  it("should replace examples for configured styles", () => {
+    const examples = [{ original: "ok", reworded: "Noted, thanks - Team Acme" }];
+    const style = applyWorkspaceExamples({ examples: { formal: examples } }, getStyle("formal")!);
+
+    expect(style.examples).toEqual(examples);
+    expect(style.guidance).toEqual(getStyle("formal")!.guidance);
+  });
+
+  it("should leave other styles untouched", () => {
+    const casual = getStyle("casual")!;
+    const style = applyWorkspaceExamples({ examples: { formal: [] } }, casual);
+
+    expect(style).toBe(casual);
+  });
+});